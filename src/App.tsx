@@ -1,9 +1,49 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { BoardText } from './components/BoardText'
+import { BoardView } from './components/BoardView'
 import { Camera } from './components/Camera'
 import { Canvas } from './components/Canvas'
+import { CardEditor } from './components/CardEditor'
+import { CardPicker } from './components/CardPicker'
+import { Controls } from './components/Controls'
+import { GameView } from './components/GameView'
+import { HistoryView } from './components/HistoryView'
+import { LoadingScreen } from './components/LoadingScreen'
+import { MatchSetup } from './components/MatchSetup'
+import { ModeMenu, type AppMode } from './components/ModeMenu'
+import { Scoreboard } from './components/Scoreboard'
+import { SetChecker } from './components/SetChecker'
 import { SetLogo } from './components/SetLogo'
+import { SettingsView } from './components/SettingsView'
+import { Stats } from './components/Stats'
 import { useSetSolver } from './hooks/useSetSolver'
-import { useStore } from './store'
+import { useLiveDetection, captureVisibleFrame } from './hooks/useLiveDetection'
+import { useManualBoard } from './hooks/useManualBoard'
+import { useGame } from './hooks/useGame'
+import { useMatch } from './hooks/useMatch'
+import { useBoardLink } from './hooks/useBoardLink'
+import { useCaptureHistory } from './hooks/useCaptureHistory'
+import { useInstallPrompt } from './hooks/useInstallPrompt'
+import { renderAnnotatedImage } from './analysis/annotate'
+import { useHints, HINT_COUNT, HINT_FULL, HINT_NONE } from './hooks/useHints'
+import { DETECTOR_PREFERENCE, useStore } from './store'
+import { savePreference } from './storage/preferences'
+import { describeAssumption, describeCard, findMaximumPacking, findUltraSets } from './game/solver'
+import { hasBoardHash, orderByPosition } from './game/share'
+import type { Backend } from './analysis/backends'
+import type { DetectorSettings } from './analysis/worker-protocol'
+import type { CaptureSummary } from './storage/history'
+import type { CardProperties, ProcessedResult, SetResult } from './types'
+
+/**
+ * The sets the hint button steps through: the confirmed sets, or the possible
+ * ones (relying on misread cards) when there are none. Either way they lead
+ * the results' sets, so their indices are indices into those.
+ */
+function hintableSets(sets: SetResult[]): SetResult[] {
+  const confirmed = sets.filter((set) => !set.assumptions)
+  return confirmed.length > 0 ? confirmed : sets
+}
 
 function App() {
   const videoRef = useRef<HTMLVideoElement>(null)
@@ -11,46 +51,160 @@ function App() {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const cameraContainerRef = useRef<HTMLDivElement>(null)
   
-  const { isModelLoaded, loadModels, processFrame, results, clearResults } = useSetSolver()
-  const { highlightedSetIndex, setHighlightedSetIndex } = useStore()
+  const {
+    isModelLoaded,
+    loadProgress,
+    loadError,
+    modelVersion,
+    backend,
+    backendOverride,
+    lastDetector,
+    loadModels,
+    changeBackend,
+    processFrame,
+    results: cameraResults,
+    correctCard,
+    clearResults,
+    restoreResults,
+  } = useSetSolver()
+  const { board, results: boardResults, toggleCard, removeCard, clearBoard, loadBoard } = useManualBoard()
+  const gamePlay = useGame()
+  const history = useCaptureHistory()
+  const { isOffline, canInstall, install } = useInstallPrompt()
+  const matchPlay = useMatch()
+  const { resetBoard: resetMatchBoard, end: endMatch } = matchPlay
+  const { highlightedSetIndex } = useStore()
+  const hints = useHints()
+  const { reveal: revealSet, refit: refitHints, reset: resetHints } = hints
+  
+  // Camera mode detects cards; manual mode solves a board built from the card
+  // picker; game mode deals a virtual deck to practise on. A board link opens
+  // straight into manual mode without starting the camera
+  const [mode, setMode] = useState<AppMode>(() => (hasBoardHash(window.location.hash) ? 'manual' : 'camera'))
+  const [showPicker, setShowPicker] = useState(false)
+  const results = mode === 'manual' ? boardResults : mode === 'game' ? gamePlay.results : cameraResults
   
   const [capturedImage, setCapturedImage] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [videoDimensions, setVideoDimensions] = useState({ width: 1280, height: 720 })
   const [isCameraReady, setIsCameraReady] = useState(false)
+  const [showControls, setShowControls] = useState(false)
+  const [editingCardIndex, setEditingCardIndex] = useState<number | null>(null)
+  const [showMatchSetup, setShowMatchSetup] = useState(false)
+  const [showBoardText, setShowBoardText] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  // History id of the capture on screen, once it has been stored
+  const captureIdRef = useRef<Promise<number | null> | null>(null)
+  const [showPacking, setShowPacking] = useState(false)
+  // Ultra SET combination being shown (null = none)
+  const [ultraIndex, setUltraIndex] = useState<number | null>(null)
+  // Cards picked in the "is this a SET?" checker (null while it is off)
+  const [checkSelection, setCheckSelection] = useState<number[] | null>(null)
+  // Why saving the annotated image failed, shown briefly
+  const [saveError, setSaveError] = useState<string | null>(null)
+  
+  // Live mode: keep feeding camera frames through the solver
+  const { isRunning: isLive, fps, toggle: toggleLive } = useLiveDetection({
+    videoRef,
+    containerRef: cameraContainerRef,
+    processFrame,
+    enabled: isModelLoaded && isCameraReady && !capturedImage && mode === 'camera',
+  })
   
-  // Track if sets have been revealed (null = not revealed yet, number = currently showing that set)
-  const [revealedSetIndex, setRevealedSetIndex] = useState<number | null>(null)
+  // Card ids of the set shown in live mode, so the highlight can follow those cards
+  const liveSetIdsRef = useRef<number[] | null>(null)
+  // Timestamp of the board the hints are for. A new frame, capture or board gets a
+  // new one; correcting a card re-solves the board but keeps it.
+  const hintBoardRef = useRef<number | null>(null)
+  
+  // Reset hints when a new board comes in
+  useEffect(() => {
+    const sets = results ? hintableSets(results.sets) : []
+    if (isLive && sets.length > 0) {
+      // In live mode keep a set highlighted so sets appear without tapping,
+      // preferring the same physical cards as the previous frame
+      const previousIds = liveSetIdsRef.current
+      const sameSet = previousIds
+        ? sets.findIndex((set) => set.cards.every((card) => previousIds.includes(card.id)))
+        : -1
+      const next = sameSet >= 0 ? sameSet : 0
+      liveSetIdsRef.current = sets[next].cards.map((card) => card.id)
+      revealSet(next)
+      return
+    }
+    // A frame without sets in live mode keeps the remembered cards for the next one
+    if (!isLive) liveSetIdsRef.current = null
+    const board = results?.timestamp ?? null
+    if (board !== null && board === hintBoardRef.current) {
+      refitHints(sets.length)
+      return
+    }
+    hintBoardRef.current = board
+    setUltraIndex(null)
+    resetHints()
+  }, [results, isLive, revealSet, refitHints, resetHints])
   
-  // Reset revealed state when results change
+  // A new board (capture, correction or deal) voids picks made on the old one
   useEffect(() => {
-    setRevealedSetIndex(null)
-    setHighlightedSetIndex(null)
-  }, [results, setHighlightedSetIndex])
+    resetMatchBoard()
+  }, [results, resetMatchBoard])
   
-  // Handle set rotation button click
+  // Handle set rotation button click: step through the hints, then cycle sets
+  const { next: nextHint } = hints
   const handleSetRotation = useCallback(() => {
-    if (!results || results.sets.length === 0) return
+    const sets = results ? hintableSets(results.sets) : []
+    if (sets.length === 0) return
     
-    if (revealedSetIndex === null) {
-      // First click: reveal set 1
-      setRevealedSetIndex(0)
-      setHighlightedSetIndex(0)
-    } else {
-      // Cycle to next set
-      const nextIndex = (revealedSetIndex + 1) % results.sets.length
-      setRevealedSetIndex(nextIndex)
-      setHighlightedSetIndex(nextIndex)
+    const index = nextHint(sets.length)
+    if (liveSetIdsRef.current && index !== null) {
+      liveSetIdsRef.current = sets[index].cards.map((card) => card.id)
     }
-  }, [results, revealedSetIndex, setHighlightedSetIndex])
+  }, [results, nextHint])
   
-  // Load models on mount
-  useEffect(() => {
+  // Load models on mount, and again from the error screen
+  const handleRetryLoad = useCallback(() => {
     loadModels().catch(err => {
       console.error('Failed to load models:', err)
     })
   }, [loadModels])
   
+  useEffect(() => {
+    handleRetryLoad()
+  }, [handleRetryLoad])
+  
+  const handleChangeBackend = useCallback((override: Backend | null) => {
+    changeBackend(override).catch(err => {
+      console.error('Failed to load models:', err)
+    })
+  }, [changeBackend])
+  
+  const detectorSettings = useStore((state) => state.settings.detector)
+  const updateSettings = useStore((state) => state.updateSettings)
+  const handleChangeDetector = useCallback((detector: DetectorSettings) => {
+    updateSettings({ detector })
+    savePreference(DETECTOR_PREFERENCE, detector)
+  }, [updateSettings])
+  
+  // Keep every capture (with its result) in the history
+  const { save: saveCapture, update: updateCapture } = history
+  const storeCapture = useCallback((image: Blob | null, result: ProcessedResult | null, width: number, height: number) => {
+    if (!image || !result) return
+    captureIdRef.current = saveCapture(
+      { timestamp: Date.now(), width, height, cards: result.cards, sets: result.sets, inferenceTime: result.inferenceTime },
+      image
+    )
+  }, [saveCapture])
+  
+  // Corrections to a stored capture are saved with it
+  useEffect(() => {
+    const stored = captureIdRef.current
+    if (!stored || !cameraResults) return
+    stored.then((id) => {
+      if (id !== null) updateCapture(id, { cards: cameraResults.cards, sets: cameraResults.sets })
+    })
+  }, [cameraResults, updateCapture])
+  
   // Capture image from camera and process it
   const handleCapture = useCallback(async () => {
     if (!isModelLoaded || !videoRef.current || !cameraContainerRef.current || isProcessing) return
@@ -60,38 +214,20 @@ function App() {
     
     setIsProcessing(true)
     
-    // Get the visible container dimensions
-    const container = cameraContainerRef.current
-    const containerWidth = container.clientWidth
-    const containerHeight = container.clientHeight
+    const canvas = captureVisibleFrame(video, cameraContainerRef.current)
+    const ctx = canvas?.getContext('2d')
     
-    // Calculate the scale factor (video is scaled to fit width)
-    const scale = video.videoWidth / containerWidth
-    
-    // Calculate how much of the video height is visible
-    const visibleVideoHeight = Math.min(containerHeight * scale, video.videoHeight)
-    
-    // Create canvas with cropped dimensions
-    const canvas = document.createElement('canvas')
-    canvas.width = video.videoWidth
-    canvas.height = Math.round(visibleVideoHeight)
-    const ctx = canvas.getContext('2d')
-    
-    if (ctx) {
-      // Draw only the visible portion (from top)
-      ctx.drawImage(
-        video,
-        0, 0, video.videoWidth, visibleVideoHeight,  // source rect
-        0, 0, video.videoWidth, visibleVideoHeight   // dest rect
-      )
+    if (canvas && ctx) {
       setCapturedImage(canvas.toDataURL('image/jpeg'))
-      setVideoDimensions({ width: video.videoWidth, height: Math.round(visibleVideoHeight) })
-      const imageData = ctx.getImageData(0, 0, video.videoWidth, Math.round(visibleVideoHeight))
-      await processFrame(imageData)
+      setVideoDimensions({ width: canvas.width, height: canvas.height })
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+      const result = await processFrame(imageData)
+      const image = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9))
+      storeCapture(image, result, canvas.width, canvas.height)
     }
     
     setIsProcessing(false)
-  }, [isModelLoaded, processFrame, isProcessing])
+  }, [isModelLoaded, processFrame, isProcessing, storeCapture])
   
   // Handle file upload
   const handleImageUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -112,7 +248,7 @@ function App() {
       if (ctx) {
         ctx.drawImage(bitmap, 0, 0)
         const imageData = ctx.getImageData(0, 0, bitmap.width, bitmap.height)
-        await processFrame(imageData)
+        storeCapture(file, await processFrame(imageData), bitmap.width, bitmap.height)
       }
       bitmap.close()
     } catch {
@@ -128,7 +264,7 @@ function App() {
         if (ctx) {
           ctx.drawImage(img, 0, 0)
           const imageData = ctx.getImageData(0, 0, img.width, img.height)
-          await processFrame(imageData)
+          storeCapture(file, await processFrame(imageData), img.width, img.height)
         }
         setIsProcessing(false)
       }
@@ -137,24 +273,169 @@ function App() {
     }
     
     setIsProcessing(false)
-  }, [isModelLoaded, processFrame])
+  }, [isModelLoaded, processFrame, storeCapture])
   
   // Clear captured image and results
   const handleClear = useCallback(() => {
     setCapturedImage(null)
-    setHighlightedSetIndex(null)
-    setRevealedSetIndex(null)
+    captureIdRef.current = null
+    setEditingCardIndex(null)
+    setCheckSelection(null)
+    resetHints()
+    endMatch()
     clearResults()
-  }, [setHighlightedSetIndex, clearResults])
+  }, [resetHints, clearResults, endMatch])
+
+  // Switch between camera, manual board entry and game
+  const handleModeChange = useCallback((next: AppMode) => {
+    setShowControls(false)
+    setShowPicker(false)
+    endMatch()
+    setMode(next)
+  }, [endMatch])
+
+  // A board pasted as text is solved in manual mode
+  const handleLoadBoard = useCallback((cards: CardProperties[]) => {
+    handleClear()
+    handleModeChange('manual')
+    loadBoard(cards)
+    setShowBoardText(false)
+  }, [handleClear, handleModeChange, loadBoard])
+
+  // Download the photo with every set drawn in and a legend
+  const handleSaveImage = useCallback(async () => {
+    if (!capturedImage || !results) return
+    setSaveError(null)
+    try {
+      const image = new Image()
+      image.src = capturedImage
+      await image.decode()
 
-  const canCapture = isModelLoaded && isCameraReady && !isProcessing && !capturedImage
+      const canvas = renderAnnotatedImage(image, videoDimensions.width, videoDimensions.height, results, (width, height) => {
+        const output = document.createElement('canvas')
+        output.width = width
+        output.height = height
+        return output
+      })
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+      if (!blob) throw new Error('the image could not be encoded')
+      const link = document.createElement('a')
+      link.href = URL.createObjectURL(blob)
+      link.download = 'set-solver.png'
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000)
+    } catch (error) {
+      console.error('Failed to save the image:', error)
+      setSaveError(`Could not save the image: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }, [capturedImage, results, videoDimensions])
+
+  // Hide the save error after a moment
+  useEffect(() => {
+    if (!saveError) return
+    const timeout = setTimeout(() => setSaveError(null), 4000)
+    return () => clearTimeout(timeout)
+  }, [saveError])
+
+  // Reopen a stored capture with its overlays
+  const { loadImage: loadCaptureImage } = history
+  const handleOpenCapture = useCallback(async (capture: CaptureSummary) => {
+    const image = await loadCaptureImage(capture.id)
+    if (!image) return
+    handleClear()
+    handleModeChange('camera')
+    setCapturedImage(URL.createObjectURL(image))
+    setVideoDimensions({ width: capture.width, height: capture.height })
+    restoreResults({
+      cards: capture.cards,
+      sets: capture.sets,
+      timestamp: performance.now(),
+      inferenceTime: capture.inferenceTime,
+    })
+    captureIdRef.current = Promise.resolve(capture.id)
+    setShowHistory(false)
+  }, [loadCaptureImage, handleClear, handleModeChange, restoreResults])
+
+  // Board links open in manual mode, skipping the camera
+  const { share: shareBoard, shareMessage, linkError, dismissLinkError } = useBoardLink(handleLoadBoard)
+
+  // In a match, taps pick cards for the player who called SET; a valid claim
+  // in game mode also takes the cards off the dealt board
+  const handleMatchTap = useCallback((index: number) => {
+    if (!results) return
+    const claim = matchPlay.selectCard(index, results.cards)
+    if (claim?.valid && mode === 'game') gamePlay.claim(claim.indices)
+  }, [results, matchPlay, mode, gamePlay])
+
+  // Checker taps toggle a card; a fourth card starts a new pick
+  const handleCheckTap = useCallback((index: number) => {
+    setCheckSelection((prev) => {
+      if (!prev || prev.length === 3) return [index]
+      return prev.includes(index) ? prev.filter((idx) => idx !== index) : [...prev, index]
+    })
+  }, [])
+
+  // Drop the last live overlay when live mode stops
+  const handleToggleLive = useCallback(() => {
+    if (isLive) clearResults()
+    toggleLive()
+  }, [isLive, clearResults, toggleLive])
+
+  const confirmedSets = results?.sets.filter((set) => !set.assumptions) ?? []
+  const uncertainSetCount = confirmedSets.filter((set) => set.uncertain).length
+  const alternativeSetCount = (results?.sets.length ?? 0) - confirmedSets.length
+  const hintSets = results ? hintableSets(results.sets) : []
+  const highlightedSet = highlightedSetIndex !== null ? results?.sets[highlightedSetIndex] : undefined
+  // Hinted cards of the highlighted set; the whole set once fully revealed
+  const hintedIndices = highlightedSet?.indices.slice(0, hints.revealedCards)
+  const showSetCount = hints.level >= HINT_COUNT || isLive
+
+  // Most sets that can be taken at once without sharing cards
+  const packing = useMemo(
+    () => findMaximumPacking(results?.sets.filter((set) => !set.assumptions) ?? []),
+    [results]
+  )
+  const ultraSets = useMemo(() => (results ? findUltraSets(results.cards) : []), [results])
+  const ultraSet = ultraIndex !== null && showSetCount && !isLive ? ultraSets[ultraIndex] : undefined
+  const packedSets = showPacking && showSetCount && !isLive ? packing.map((set) => set.indices) : undefined
+
+  const canCapture = isModelLoaded && isCameraReady && !isProcessing && !capturedImage && !isLive
 
   return (
     <div className="fixed inset-0 bg-set-red flex flex-col">
       {/* Main camera/image view */}
       <div className="flex-1 relative overflow-hidden">
         <div className="absolute inset-0 flex items-center justify-center">
-          {capturedImage ? (
+          {mode === 'game' ? (
+            <GameView
+              game={gamePlay.game}
+              cards={gamePlay.results.cards}
+              selected={matchPlay.match ? matchPlay.selection : gamePlay.selected}
+              highlightedIndices={ultraSet?.indices ?? hintedIndices}
+              packedSets={packedSets}
+              lastClaim={gamePlay.lastClaim}
+              mistakes={gamePlay.mistakes}
+              startedAt={gamePlay.startedAt}
+              finishedAt={gamePlay.finishedAt}
+              onCardTap={matchPlay.match ? handleMatchTap : gamePlay.selectCard}
+              onRestart={() => gamePlay.restart()}
+            />
+          ) : mode === 'manual' ? (
+            <div className="absolute inset-0 overflow-y-auto hide-scrollbar px-3 pt-20 pb-6">
+              {results ? (
+                <BoardView
+                  cards={results.cards}
+                  highlightedIndices={ultraSet?.indices ?? hintedIndices}
+                  packedSets={packedSets}
+                  onCardTap={removeCard}
+                />
+              ) : (
+                <p className="text-white text-center font-bold mt-16">
+                  Tap + to add the cards on the table
+                </p>
+              )}
+            </div>
+          ) : capturedImage ? (
             <div 
               className="relative h-full"
               style={{ aspectRatio: `${videoDimensions.width} / ${videoDimensions.height}`, maxWidth: '100%', maxHeight: '100%' }}
@@ -168,8 +449,15 @@ function App() {
                 ref={canvasRef} 
                 results={results}
                 highlightedSetIndex={highlightedSetIndex}
+                revealedCards={hints.revealedCards}
                 width={videoDimensions.width}
                 height={videoDimensions.height}
+                packedSets={packedSets}
+                ultraSet={ultraSet}
+                onCardTap={
+                  matchPlay.match ? handleMatchTap : checkSelection ? handleCheckTap : setEditingCardIndex
+                }
+                selectedIndices={matchPlay.match ? matchPlay.selection : checkSelection ?? undefined}
               />
             </div>
           ) : (
@@ -186,6 +474,7 @@ function App() {
                 ref={canvasRef} 
                 results={results}
                 highlightedSetIndex={highlightedSetIndex}
+                revealedCards={hints.revealedCards}
                 width={videoDimensions.width}
                 height={videoDimensions.height}
                 coverTop
@@ -195,13 +484,12 @@ function App() {
         </div>
         
         {/* Loading overlay */}
-        {!isModelLoaded && (
-          <div className="absolute inset-0 flex items-center justify-center bg-set-red/90">
-            <div className="text-center text-white">
-              <div className="animate-spin rounded-full h-12 w-12 border-4 border-set-yellow border-t-transparent mx-auto mb-4"></div>
-              <p className="text-lg font-bold tracking-wide">Loading SET Solver...</p>
-            </div>
-          </div>
+        {!isModelLoaded && mode === 'camera' && (
+          <LoadingScreen
+            progress={loadProgress}
+            error={loadError}
+            onRetry={handleRetryLoad}
+          />
         )}
         
         {/* Processing overlay */}
@@ -213,17 +501,279 @@ function App() {
         
         {/* Top bar - Set branding */}
         <div className="absolute top-0 left-0 right-0 p-3 flex justify-between items-start pointer-events-none">
-          <div className="bg-set-yellow rounded-lg shadow-lg px-2 py-1">
-            <SetLogo className="h-10 w-auto" />
+          <div className="flex items-center gap-2">
+            <div className="bg-set-yellow rounded-lg shadow-lg px-2 py-1">
+              <SetLogo className="h-10 w-auto" />
+            </div>
+            {isOffline && (
+              <span className="text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-black text-white">
+                OFFLINE
+              </span>
+            )}
+            {canInstall && (
+              <button
+                onClick={install}
+                className="pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-set-yellow text-black hover:bg-yellow-300 transition-all"
+              >
+                INSTALL
+              </button>
+            )}
+            {!capturedImage && (
+              <ModeMenu mode={mode} disabled={isLive} onChange={handleModeChange} />
+            )}
+            {!capturedImage && mode === 'camera' && (
+              <button
+                onClick={() => setShowControls(!showControls)}
+                className={`pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black transition-all ${
+                  isLive ? 'bg-set-red text-white animate-pulse' : 'bg-white text-black hover:bg-set-yellow'
+                }`}
+              >
+                LIVE
+              </button>
+            )}
+            {!capturedImage && mode === 'camera' && !isLive && (
+              <button
+                onClick={() => setShowHistory(true)}
+                className="pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+              >
+                HISTORY
+              </button>
+            )}
+            {!capturedImage && mode === 'camera' && !isLive && (
+              <button
+                onClick={() => setShowSettings(true)}
+                className="pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+              >
+                SETTINGS
+              </button>
+            )}
+            {capturedImage && !matchPlay.match && (
+              <button
+                onClick={() => setCheckSelection(checkSelection ? null : [])}
+                className={`pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black transition-all ${
+                  checkSelection ? 'bg-set-yellow text-black' : 'bg-white text-black hover:bg-set-yellow'
+                }`}
+              >
+                CHECK
+              </button>
+            )}
+            {(mode !== 'camera' || capturedImage) && (
+              <button
+                onClick={() => setShowBoardText(true)}
+                className="pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+              >
+                TEXT
+              </button>
+            )}
+            {(mode !== 'camera' || capturedImage) && results && results.cards.length > 0 && (
+              <button
+                onClick={() => shareBoard(orderByPosition(results.cards), confirmedSets.length)}
+                className="pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+              >
+                SHARE
+              </button>
+            )}
+            {capturedImage && results && (
+              <button
+                onClick={handleSaveImage}
+                className="pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+              >
+                SAVE
+              </button>
+            )}
+            {(mode === 'game' || capturedImage) && !matchPlay.match && (
+              <button
+                onClick={() => {
+                  setCheckSelection(null)
+                  setShowMatchSetup(true)
+                }}
+                className="pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+              >
+                PLAYERS
+              </button>
+            )}
           </div>
           {results && (
-            <div className="bg-set-yellow text-black text-sm font-bold px-4 py-2 rounded-full shadow-lg">
-              {results.cards.length} cards · {results.sets.length} sets
+            <div className="flex flex-col items-end gap-2">
+              <div className="bg-set-yellow text-black text-sm font-bold px-4 py-2 rounded-full shadow-lg">
+                {results.cards.length} cards
+                {showSetCount && ` · ${confirmedSets.length} sets`}
+                {showSetCount && uncertainSetCount > 0 && ` (${uncertainSetCount} uncertain)`}
+                {showSetCount && alternativeSetCount > 0 && ` · ${alternativeSetCount} possible`}
+                {hints.hintsUsed > 0 && ` · ${hints.hintsUsed} hint${hints.hintsUsed === 1 ? '' : 's'}`}
+              </div>
+              {showSetCount && packing.length > 0 && !isLive && (
+                <button
+                  onClick={() => setShowPacking(!showPacking)}
+                  className={`pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black transition-all ${
+                    showPacking ? 'bg-set-yellow text-black' : 'bg-white text-black hover:bg-set-yellow'
+                  }`}
+                >
+                  MAX {packing.length} DISJOINT
+                </button>
+              )}
+              {showSetCount && ultraSets.length > 0 && !isLive && (
+                <button
+                  onClick={() =>
+                    setUltraIndex(ultraIndex === null ? 0 : ultraIndex + 1 < ultraSets.length ? ultraIndex + 1 : null)
+                  }
+                  className={`pointer-events-auto text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black transition-all ${
+                    ultraSet ? 'bg-set-yellow text-black' : 'bg-white text-black hover:bg-set-yellow'
+                  }`}
+                >
+                  ULTRA {ultraSet ? `${ultraIndex! + 1}/${ultraSets.length}` : ultraSets.length}
+                </button>
+              )}
             </div>
           )}
         </div>
         
         
+        {/* Share feedback */}
+        {shareMessage && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-black text-white text-sm font-bold px-4 py-2 rounded-full shadow-lg pointer-events-none">
+            {shareMessage}
+          </div>
+        )}
+        
+        {/* Board link that could not be opened */}
+        {linkError && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 w-80 max-w-[calc(100%-1.5rem)] bg-white rounded-2xl shadow-lg border-2 border-black px-4 py-3 flex items-start gap-3">
+            <p className="flex-1 text-sm font-bold text-set-red break-words">{linkError}</p>
+            <button
+              onClick={dismissLinkError}
+              className="w-7 h-7 shrink-0 rounded-full bg-white border-2 border-black text-xs font-black hover:bg-set-yellow"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        
+        {/* Save failure */}
+        {saveError && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 max-w-[calc(100%-1.5rem)] bg-white text-set-red text-sm font-bold text-center px-4 py-2 rounded-2xl shadow-lg border-2 border-black pointer-events-none">
+            {saveError}
+          </div>
+        )}
+        
+        {/* Live mode controls */}
+        {showControls && !capturedImage && mode === 'camera' && (
+          <div className="absolute top-20 left-3 w-72 max-w-[calc(100%-1.5rem)] text-white shadow-xl">
+            <Controls
+              isModelLoaded={isModelLoaded && isCameraReady}
+              isRunning={isLive}
+              onToggleRunning={handleToggleLive}
+            />
+          </div>
+        )}
+        
+        {/* Live mode stats */}
+        {isLive && (
+          <div className="absolute bottom-3 left-3 right-3 text-white pointer-events-none">
+            <Stats fps={fps} results={results} />
+          </div>
+        )}
+        
+        {/* Card picker for manual boards */}
+        {showPicker && mode === 'manual' && (
+          <CardPicker selected={board} onToggle={toggleCard} onClose={() => setShowPicker(false)} />
+        )}
+        
+        {/* Hot-seat match */}
+        {matchPlay.match && (
+          <div className="absolute bottom-3 left-3 right-3">
+            <Scoreboard
+              match={matchPlay.match}
+              lastClaim={matchPlay.lastClaim}
+              onCall={matchPlay.call}
+              onEnd={matchPlay.end}
+            />
+          </div>
+        )}
+        
+        {/* "Is this a SET?" checker */}
+        {checkSelection && results && (
+          <div className="absolute bottom-3 left-3 right-3 sm:left-auto sm:w-96">
+            <SetChecker
+              cards={checkSelection.map((idx) => results.cards[idx]).filter(Boolean)}
+              onClose={() => setCheckSelection(null)}
+            />
+          </div>
+        )}
+        {showHistory && (
+          <HistoryView
+            captures={history.captures}
+            totalBytes={history.totalBytes}
+            onRefresh={history.refresh}
+            onOpen={handleOpenCapture}
+            onDelete={history.remove}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+        {showSettings && (
+          <SettingsView
+            backend={backend}
+            backendOverride={backendOverride}
+            modelVersion={modelVersion}
+            loadError={loadError}
+            detector={detectorSettings}
+            lastDetector={lastDetector}
+            onChangeBackend={handleChangeBackend}
+            onChangeDetector={handleChangeDetector}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+        {showBoardText && (
+          <BoardText
+            cards={results?.cards ?? []}
+            onLoad={handleLoadBoard}
+            onClose={() => setShowBoardText(false)}
+          />
+        )}
+        {showMatchSetup && (
+          <MatchSetup
+            onStart={(names) => {
+              matchPlay.start(names)
+              setShowMatchSetup(false)
+            }}
+            onCancel={() => setShowMatchSetup(false)}
+          />
+        )}
+        
+        {/* Tap-to-correct editor */}
+        {editingCardIndex !== null && results?.cards[editingCardIndex] && (
+          <CardEditor
+            key={editingCardIndex}
+            card={results.cards[editingCardIndex]}
+            onSave={(props) => {
+              correctCard(editingCardIndex, props)
+              setEditingCardIndex(null)
+            }}
+            onCancel={() => setEditingCardIndex(null)}
+          />
+        )}
+        
+        {/* Card completing both pairs of the Ultra SET, drawn on the canvas for photos */}
+        {ultraSet && mode !== 'camera' && (
+          <div className="absolute bottom-16 left-1/2 -translate-x-1/2 bg-white rounded-2xl px-5 py-3 shadow-xl border-2 border-black pointer-events-none">
+            <div className="text-black text-sm font-bold text-center">
+              Both pairs need {describeCard(ultraSet.missing)}
+            </div>
+          </div>
+        )}
+        
+        {/* Assumptions behind a possible set */}
+        {highlightedSet?.assumptions && hints.level === HINT_FULL && results && (
+          <div className="absolute bottom-16 left-1/2 -translate-x-1/2 bg-orange-400 rounded-2xl px-5 py-3 shadow-xl border-2 border-black pointer-events-none">
+            <div className="text-black text-sm font-bold text-center space-y-1">
+              <div>Possible set</div>
+              {highlightedSet.assumptions.map((assumption) => (
+                <div key={assumption.index}>{describeAssumption(assumption, results.cards)}</div>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Selected set info - hidden for now
         {highlightedSetIndex !== null && results?.sets[highlightedSetIndex] && (
           <div className="absolute bottom-32 left-1/2 -translate-x-1/2 bg-set-yellow rounded-2xl px-5 py-3 shadow-xl border-2 border-black">
@@ -241,80 +791,133 @@ function App() {
       
       {/* Bottom control bar */}
       <div className="h-28 bg-set-red flex items-center justify-center gap-8 px-6 safe-area-bottom border-t-8 border-set-yellow">
-        {/* Gallery/Upload button */}
-        <button
-          onClick={() => fileInputRef.current?.click()}
-          disabled={!isModelLoaded || isProcessing}
-          className="w-14 h-14 rounded-full bg-white flex items-center justify-center text-set-red hover:bg-set-yellow hover:text-black transition-all shadow-lg disabled:opacity-40 border-2 border-black"
-        >
-          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-          </svg>
-        </button>
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept="image/*"
-          onChange={handleImageUpload}
-          className="hidden"
-        />
-        
-        {/* Main capture/back button */}
-        {capturedImage ? (
-          <button
-            onClick={handleClear}
-            className="w-20 h-20 rounded-full bg-white border-4 border-black flex items-center justify-center hover:bg-set-yellow transition-all active:scale-95 shadow-xl"
-          >
-            <svg className="w-8 h-8 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+        {mode === 'game' ? (
+          <>
+            {/* New game button */}
+            <button
+              onClick={() => gamePlay.restart()}
+              className="w-14 h-14 rounded-full bg-white flex items-center justify-center text-set-red hover:bg-set-yellow hover:text-black transition-all shadow-lg border-2 border-black"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+            
+            {/* Score */}
+            <div className="w-20 h-20 rounded-full bg-set-yellow border-4 border-black flex flex-col items-center justify-center shadow-xl">
+              <span className="text-2xl font-black leading-none">{gamePlay.game.score}</span>
+              <span className="text-xs font-bold">SETs</span>
+            </div>
+          </>
+        ) : mode === 'manual' ? (
+          <>
+            {/* Clear board button */}
+            <button
+              onClick={clearBoard}
+              disabled={board.length === 0}
+              className="w-14 h-14 rounded-full bg-white flex items-center justify-center text-set-red hover:bg-set-yellow hover:text-black transition-all shadow-lg disabled:opacity-40 border-2 border-black"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+            
+            {/* Add cards button */}
+            <button
+              onClick={() => setShowPicker(true)}
+              className="w-20 h-20 rounded-full bg-set-yellow border-4 border-black flex items-center justify-center hover:bg-yellow-300 transition-all active:scale-95 shadow-xl"
+            >
+              <svg className="w-8 h-8 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 4v16m8-8H4" />
+              </svg>
+            </button>
+          </>
         ) : (
-          <button
-            onClick={handleCapture}
-            disabled={!canCapture}
-            className={`
-              w-20 h-20 rounded-full border-4 border-black flex items-center justify-center
-              transition-all active:scale-95 shadow-xl
-              ${canCapture 
-                ? 'bg-set-yellow hover:bg-yellow-300' 
-                : 'bg-white/50 border-white/50'
-              }
-            `}
-          >
-            {!isModelLoaded ? (
-              <div className="animate-spin rounded-full h-8 w-8 border-4 border-set-red border-t-transparent"></div>
-            ) : !isCameraReady ? (
-              <div className="w-8 h-8 rounded-full bg-gray-400"></div>
+          <>
+            {/* Gallery/Upload button */}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!isModelLoaded || isProcessing || isLive}
+              className="w-14 h-14 rounded-full bg-white flex items-center justify-center text-set-red hover:bg-set-yellow hover:text-black transition-all shadow-lg disabled:opacity-40 border-2 border-black"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleImageUpload}
+              className="hidden"
+            />
+
+            {/* Main capture/back button */}
+            {capturedImage ? (
+              <button
+                onClick={handleClear}
+                className="w-20 h-20 rounded-full bg-white border-4 border-black flex items-center justify-center hover:bg-set-yellow transition-all active:scale-95 shadow-xl"
+              >
+                <svg className="w-8 h-8 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
             ) : (
-              <div className="w-14 h-14 rounded-full bg-set-red"></div>
+              <button
+                onClick={handleCapture}
+                disabled={!canCapture}
+                className={`
+                  w-20 h-20 rounded-full border-4 border-black flex items-center justify-center
+                  transition-all active:scale-95 shadow-xl
+                  ${canCapture 
+                    ? 'bg-set-yellow hover:bg-yellow-300' 
+                    : 'bg-white/50 border-white/50'
+                  }
+                `}
+              >
+                {!isModelLoaded ? (
+                  <div className="animate-spin rounded-full h-8 w-8 border-4 border-set-red border-t-transparent"></div>
+                ) : !isCameraReady ? (
+                  <div className="w-8 h-8 rounded-full bg-gray-400"></div>
+                ) : (
+                  <div className="w-14 h-14 rounded-full bg-set-red"></div>
+                )}
+              </button>
             )}
-          </button>
+          </>
         )}
         
         {/* Set rotation button */}
         <button
           onClick={handleSetRotation}
-          disabled={!results || results.sets.length === 0}
+          disabled={hintSets.length === 0}
           className={`
             relative w-14 h-14 rounded-full border-2 border-black flex items-center justify-center shadow-lg
             transition-all active:scale-95
-            ${results && results.sets.length > 0 
-              ? revealedSetIndex !== null
+            ${hintSets.length > 0
+              ? hints.level !== HINT_NONE
                 ? 'bg-set-yellow text-black hover:bg-yellow-300'
                 : 'bg-set-yellow text-black animate-set-found'
               : 'bg-white/50 text-gray-400'
             }
           `}
         >
-          {results && results.sets.length > 0 ? (
-            revealedSetIndex !== null ? (
+          {hintSets.length > 0 ? (
+            hints.level === HINT_FULL ? (
               <span className="text-sm font-black">
-                {revealedSetIndex + 1}/{results.sets.length}
+                {hints.setIndex + 1}/{hintSets.length}
+                {hintSets[hints.setIndex]?.uncertain && '?'}
               </span>
-            ) : (
+            ) : hints.level === HINT_COUNT ? (
               <span className="text-sm font-black">
-                {results.sets.length}
+                {hintSets.length}
+              </span>
+            ) : hints.level === HINT_NONE ? (
+              <span className="text-sm font-black">?</span>
+            ) : (
+              // One or two of the three cards shown
+              <span className="text-xs font-black tracking-tighter">
+                {'●'.repeat(hints.revealedCards)}{'○'.repeat(3 - hints.revealedCards)}
               </span>
             )
           ) : (
@@ -0,0 +1,157 @@
+/**
+ * Annotated result images.
+ *
+ * Draws a photo with every detected card outlined and numbered and every set
+ * in its own colour, plus a legend listing the sets underneath. Pure drawing
+ * on a 2D canvas, so it works in the browser and headlessly with node-canvas.
+ */
+
+import type { Card, ProcessedResult, SetResult } from '../types'
+
+// Distinct colours for the sets, reused in order when there are more sets
+export const SET_COLORS = [
+  '#FACC15', '#3B82F6', '#EC4899', '#16A34A', '#F97316',
+  '#A855F7', '#14B8A6', '#EF4444', '#84CC16', '#0EA5E9',
+]
+
+// The part of a 2D context the drawing uses, which the DOM's and node-canvas's both have.
+// Styles are only ever set to colour strings; gradients and patterns differ between the two.
+export interface RenderContext<I> {
+  font: string
+  lineJoin: CanvasLineJoin
+  lineWidth: number
+  textBaseline: CanvasTextBaseline
+  fillStyle: string | object
+  strokeStyle: string | object
+  drawImage(image: I, dx: number, dy: number, dw: number, dh: number): void
+  beginPath(): void
+  moveTo(x: number, y: number): void
+  lineTo(x: number, y: number): void
+  closePath(): void
+  stroke(): void
+  setLineDash(segments: number[]): void
+  fillRect(x: number, y: number, w: number, h: number): void
+  fillText(text: string, x: number, y: number): void
+  measureText(text: string): { width: number }
+}
+
+// Anything with a 2D context that can draw images of type I: an HTMLCanvasElement,
+// OffscreenCanvas or node-canvas Canvas
+export interface RenderCanvas<I> {
+  width: number
+  height: number
+  getContext(type: '2d'): RenderContext<I> | null
+}
+
+type Point = { x: number; y: number }
+
+/**
+ * A card's outline pulled `inset` pixels towards its centre, so the outlines
+ * of several sets sharing a card stay visible side by side.
+ */
+function cardOutline(card: Card, inset: number): Point[] {
+  const [x1, y1, x2, y2] = card.bbox
+  const corners =
+    card.corners && card.corners.length === 4
+      ? card.corners
+      : [{ x: x1, y: y1 }, { x: x2, y: y1 }, { x: x2, y: y2 }, { x: x1, y: y2 }]
+  const cx = corners.reduce((sum, p) => sum + p.x, 0) / 4
+  const cy = corners.reduce((sum, p) => sum + p.y, 0) / 4
+  const halfSize = Math.max(1, Math.min(x2 - x1, y2 - y1) / 2)
+  const factor = Math.max(0.2, 1 - inset / halfSize)
+  return corners.map((p) => ({ x: cx + (p.x - cx) * factor, y: cy + (p.y - cy) * factor }))
+}
+
+function strokePolygon(ctx: RenderContext<unknown>, points: Point[]) {
+  ctx.beginPath()
+  ctx.moveTo(points[0].x, points[0].y)
+  points.slice(1).forEach((p) => ctx.lineTo(p.x, p.y))
+  ctx.closePath()
+  ctx.stroke()
+}
+
+function legendLabel(set: SetResult, n: number): string {
+  const cards = set.cards.map((card) => `#${card.id + 1}`).join(', ')
+  const note = set.assumptions ? ' (possible)' : set.uncertain ? ' (uncertain)' : ''
+  return `Set ${n + 1}: ${cards}${note}`
+}
+
+/**
+ * Render the image with its annotations onto a new canvas from `createCanvas`.
+ * The canvas is as wide as the image and tall enough for the legend below it;
+ * export it with toBlob/toDataURL (browser) or toBuffer (node-canvas).
+ */
+export function renderAnnotatedImage<I, C extends RenderCanvas<I>>(
+  image: I,
+  width: number,
+  height: number,
+  result: ProcessedResult,
+  createCanvas: (width: number, height: number) => C
+): C {
+  // Sizes relative to a 1280px wide image
+  const scale = width / 1280
+  const lineWidth = Math.max(2, 6 * scale)
+  const fontSize = Math.max(12, 24 * scale)
+  const rowHeight = fontSize * 1.6
+  const padding = fontSize
+  const legendHeight = padding * 2 + Math.max(1, result.sets.length) * rowHeight
+
+  const canvas = createCanvas(width, height + legendHeight)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('2D canvas context unavailable')
+
+  ctx.drawImage(image, 0, 0, width, height)
+  ctx.lineJoin = 'round'
+
+  // Every card: thin outline and its number
+  ctx.font = `bold ${fontSize}px sans-serif`
+  ctx.textBaseline = 'top'
+  for (const card of result.cards) {
+    const outline = cardOutline(card, 0)
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)'
+    ctx.lineWidth = lineWidth / 2
+    ctx.setLineDash([])
+    strokePolygon(ctx, outline)
+
+    const label = `#${card.id + 1}`
+    const labelWidth = ctx.measureText(label).width + fontSize / 2
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)'
+    ctx.fillRect(outline[0].x, outline[0].y, labelWidth, fontSize * 1.3)
+    ctx.fillStyle = '#FFFFFF'
+    ctx.fillText(label, outline[0].x + fontSize / 4, outline[0].y + fontSize * 0.15)
+  }
+
+  // Every set in its own colour, nested inside earlier sets on shared cards
+  const setsOnCard = new Map<number, number>()
+  result.sets.forEach((set, n) => {
+    ctx.strokeStyle = SET_COLORS[n % SET_COLORS.length]
+    ctx.lineWidth = lineWidth
+    ctx.setLineDash(set.assumptions ? [lineWidth * 3, lineWidth * 2] : [])
+    set.indices.forEach((idx) => {
+      const card = result.cards[idx]
+      if (!card) return
+      const depth = setsOnCard.get(idx) ?? 0
+      setsOnCard.set(idx, depth + 1)
+      strokePolygon(ctx, cardOutline(card, lineWidth * (1.5 * depth + 1)))
+    })
+  })
+  ctx.setLineDash([])
+
+  // Legend
+  ctx.fillStyle = '#DC2626' // SET red
+  ctx.fillRect(0, height, width, legendHeight)
+  ctx.textBaseline = 'middle'
+  if (result.sets.length === 0) {
+    ctx.fillStyle = '#FFFFFF'
+    ctx.fillText(`${result.cards.length} cards · no sets`, padding, height + padding + rowHeight / 2)
+  }
+  result.sets.forEach((set, n) => {
+    const y = height + padding + n * rowHeight + rowHeight / 2
+    ctx.fillStyle = SET_COLORS[n % SET_COLORS.length]
+    ctx.fillRect(padding, y - fontSize / 2, fontSize * 1.5, fontSize)
+    ctx.fillStyle = '#FFFFFF'
+    ctx.fillText(legendLabel(set, n), padding + fontSize * 2.2, y)
+  })
+
+  return canvas
+}
@@ -0,0 +1,153 @@
+/**
+ * ONNX Runtime execution providers for the classifier.
+ *
+ * Benchmarks the providers this browser supports on dummy card images and
+ * picks the fastest one whose results agree with WASM. WASM threads need
+ * SharedArrayBuffer, which only cross-origin isolated pages (COOP/COEP
+ * headers) get, so they are enabled only when isolation is really present.
+ */
+
+import * as ort from 'onnxruntime-web/all'
+import { CardClassifier } from './inference'
+import type { ModelInfo } from './model-manifest'
+import type { ClassificationResult } from '../types'
+
+export type Backend = 'webgpu' | 'webgl' | 'wasm'
+
+// In order of preference when equally fast
+export const BACKENDS: Backend[] = ['webgpu', 'webgl', 'wasm']
+
+export interface BackendBenchmark {
+  backend: Backend
+  ms: number | null // median time to classify the dummy board, null if it failed
+  error?: string
+  unverified?: boolean // ran, but WASM failed so its results could not be checked
+}
+
+export interface BackendSelection {
+  backend: Backend
+  threads: number // WASM threads
+  isolated: boolean // cross-origin isolated, so threads are possible
+  benchmarks: BackendBenchmark[] // empty when a stored or chosen backend was used
+  fallbackFrom?: Backend // the requested backend, when it failed to load and a benchmark chose instead
+}
+
+const BENCHMARK_CARDS = 12 // a standard board
+const BENCHMARK_RUNS = 3
+const MAX_THREADS = 4
+// Largest probability difference from WASM still counted as the same result
+const PROBABILITY_TOLERANCE = 0.02
+
+/**
+ * Whether SharedArrayBuffer is usable: the page (or worker) must be cross-origin isolated.
+ */
+export function isCrossOriginIsolated(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated === true
+}
+
+/**
+ * Set the WASM thread count for this device. Returns the number of threads.
+ */
+export function configureWasmThreads(): number {
+  const threads = isCrossOriginIsolated() ? Math.min(MAX_THREADS, navigator.hardwareConcurrency || 1) : 1
+  ort.env.wasm.numThreads = threads
+  return threads
+}
+
+/**
+ * Why a backend cannot run here, or null if the browser has what it needs.
+ */
+function unsupportedReason(backend: Backend): string | null {
+  if (backend === 'webgpu' && !('gpu' in navigator)) return 'WebGPU not available'
+  if (backend === 'webgl') {
+    const canvas = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : null
+    if (!canvas?.getContext('webgl2')) return 'WebGL 2 not available'
+  }
+  return null
+}
+
+/**
+ * Card-sized images with a fixed pattern, so every backend sees the same input.
+ */
+function dummyCards(size: number): ImageData[] {
+  return Array.from({ length: BENCHMARK_CARDS }, (_, card) => {
+    const image = new ImageData(size, Math.round(size * 1.5))
+    for (let i = 0; i < image.data.length; i += 4) {
+      const pixel = i / 4 + card * 97
+      image.data[i] = (pixel * 7) % 256
+      image.data[i + 1] = (pixel * 13) % 256
+      image.data[i + 2] = (pixel * 29) % 256
+      image.data[i + 3] = 255
+    }
+    return image
+  })
+}
+
+function agrees(a: ClassificationResult[], b: ClassificationResult[]): boolean {
+  const heads = ['shape', 'color', 'number', 'shading'] as const
+  return a.every((result, i) =>
+    heads.every((head) => {
+      const diff = Math.max(...result.probabilities[head].map((p, j) => Math.abs(p - b[i].probabilities[head][j])))
+      return result[head] === b[i][head] && diff <= PROBABILITY_TOLERANCE
+    })
+  )
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Time every backend on a dummy board. WASM runs first and is the reference
+ * the others must match; a backend that errors or disagrees gets no time, and
+ * one that runs when WASM failed is timed but marked unverified.
+ */
+export async function benchmarkBackends(model: Uint8Array, info: ModelInfo): Promise<BackendBenchmark[]> {
+  const images = dummyCards(info.inputSize)
+  let reference: ClassificationResult[] | null = null
+  const benchmarks: BackendBenchmark[] = []
+
+  for (const backend of ['wasm', 'webgpu', 'webgl'] as const) {
+    const reason = unsupportedReason(backend)
+    if (reason) {
+      benchmarks.push({ backend, ms: null, error: reason })
+      continue
+    }
+
+    const classifier = new CardClassifier()
+    try {
+      await classifier.load(model, [backend], info)
+      // The first run compiles shaders and allocates buffers
+      let output = await classifier.classifyBatch(images)
+      const times: number[] = []
+      for (let run = 0; run < BENCHMARK_RUNS; run++) {
+        const start = performance.now()
+        output = await classifier.classifyBatch(images)
+        times.push(performance.now() - start)
+      }
+      if (backend === 'wasm') {
+        reference = output
+      } else if (reference && !agrees(reference, output)) {
+        throw new Error('Results differ from WASM')
+      }
+      benchmarks.push(reference ? { backend, ms: median(times) } : { backend, ms: median(times), unverified: true })
+    } catch (error) {
+      benchmarks.push({ backend, ms: null, error: error instanceof Error ? error.message : String(error) })
+    } finally {
+      await classifier.release()
+    }
+  }
+
+  console.log('Backend benchmark:', benchmarks)
+  return benchmarks
+}
+
+/**
+ * The fastest backend that worked and agreed with WASM, falling back to WASM.
+ */
+export function pickBackend(benchmarks: BackendBenchmark[]): Backend {
+  const working = benchmarks.filter((b) => b.ms !== null && !b.unverified)
+  working.sort((a, b) => a.ms! - b.ms! || BACKENDS.indexOf(a.backend) - BACKENDS.indexOf(b.backend))
+  return working[0]?.backend ?? 'wasm'
+}
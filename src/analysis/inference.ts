@@ -4,44 +4,120 @@
  * Card detection is handled by OpenCV (see opencv-detector.ts).
  */
 
-import * as ort from 'onnxruntime-web'
+// The full build: the default one leaves out the WebGL backend
+import * as ort from 'onnxruntime-web/all'
+import { DEFAULT_MODEL_INFO, type HeadName, type ModelInfo } from './model-manifest'
 import type { ClassificationResult } from '../types'
 
-// Configure ONNX Runtime
-ort.env.wasm.numThreads = 4
-
 /**
  * Card Classifier for determining card properties (shape, color, number, shading)
  */
 export class CardClassifier {
   private session: ort.InferenceSession | null = null
-  private inputSize = 224
-  private mean = [0.485, 0.456, 0.406]
-  private std = [0.229, 0.224, 0.225]
-
-  async load(modelPath: string = '/models/classifier.onnx'): Promise<void> {
-    this.session = await ort.InferenceSession.create(modelPath, {
-      executionProviders: ['webgl', 'wasm'],
-    })
-    console.log('Classifier model loaded')
+  private info: ModelInfo = DEFAULT_MODEL_INFO
+  private fixedBatchSize: number | null = null
+
+  /**
+   * Load the model from a path/URL or from bytes already fetched (see
+   * fetchModel). `info` supplies the input size, normalisation and tensor
+   * names, usually from the model manifest. Pick the execution providers
+   * with backends.ts; WASM threads are configured there too.
+   */
+  async load(
+    model: string | Uint8Array = '/models/classifier.onnx',
+    executionProviders: string[] = ['wasm'],
+    info: ModelInfo = DEFAULT_MODEL_INFO
+  ): Promise<void> {
+    this.info = info
+    // The URL and buffer overloads take the same options; TypeScript cannot pick one for a union
+    this.session = await ort.InferenceSession.create(model as Uint8Array, { executionProviders })
+    this.fixedBatchSize = this.readFixedBatchSize()
+    console.log(`Classifier model ${info.version} loaded`)
+  }
+
+  /**
+   * Free the session (and any GPU memory it holds).
+   */
+  async release(): Promise<void> {
+    await this.session?.release()
+    this.session = null
+  }
+
+  private get inputSize(): number {
+    return this.info.inputSize
   }
 
   async classify(imageData: ImageData): Promise<ClassificationResult> {
+    const [result] = await this.classifyBatch([imageData])
+    return result
+  }
+
+  /**
+   * Classify several card images with a single inference run.
+   * Models exported with a fixed batch dimension are run in chunks of that size.
+   */
+  async classifyBatch(images: ImageData[]): Promise<ClassificationResult[]> {
     if (!this.session) {
       throw new Error('Model not loaded')
     }
+    if (images.length === 0) {
+      return []
+    }
+
+    // Preprocess every image up front
+    const inputs = images.map((imageData) => this.preprocess(imageData))
+
+    if (this.fixedBatchSize === null) {
+      try {
+        return await this.runBatch(inputs, inputs.length)
+      } catch (error) {
+        // Runtimes without input metadata only tell us about a fixed batch
+        // dimension by failing; fall back to one image per run
+        if (inputs.length === 1) throw error
+        console.warn('Batched inference failed, falling back to single images:', error)
+        this.fixedBatchSize = 1
+      }
+    }
+
+    const results: ClassificationResult[] = []
+    for (let start = 0; start < inputs.length; start += this.fixedBatchSize) {
+      const chunk = inputs.slice(start, start + this.fixedBatchSize)
+      results.push(...await this.runBatch(chunk, this.fixedBatchSize))
+    }
+    return results
+  }
 
-    // Preprocess image
-    const inputTensor = this.preprocess(imageData)
+  /**
+   * Run one inference over up to `batchSize` preprocessed images, padding the
+   * batch with blank images if the model needs exactly that many.
+   */
+  private async runBatch(inputs: Float32Array[], batchSize: number): Promise<ClassificationResult[]> {
+    const imageSize = 3 * this.inputSize * this.inputSize
+    const batchData = new Float32Array(batchSize * imageSize)
+    inputs.forEach((input, i) => batchData.set(input, i * imageSize))
+
+    const inputTensor = new ort.Tensor('float32', batchData, [batchSize, 3, this.inputSize, this.inputSize])
 
     // Run inference
-    const outputs = await this.session.run({ input: inputTensor })
+    const outputs = await this.session!.run({ [this.info.inputName]: inputTensor })
+
+    // Parse outputs, dropping any padding
+    return inputs.map((_, i) => this.postprocess(outputs, i, batchSize))
+  }
 
-    // Parse outputs
-    return this.postprocess(outputs)
+  /**
+   * Batch dimension of the model input if it is fixed, or null if dynamic/unknown.
+   */
+  private readFixedBatchSize(): number | null {
+    const input = this.session?.inputMetadata?.find((meta) => meta.name === this.info.inputName)
+    const batchDim = input?.isTensor ? input.shape[0] : undefined
+    return typeof batchDim === 'number' && batchDim > 0 ? batchDim : null
   }
 
-  private preprocess(imageData: ImageData): ort.Tensor {
+  /**
+   * Resize and normalize an image into CHW float data for one batch slot.
+   */
+  private preprocess(imageData: ImageData): Float32Array {
     const { width, height, data } = imageData
 
     // Step 1: First resize to 200x300 (matching training aspect ratio)
@@ -52,7 +128,8 @@ export class CardClassifier {
     // Step 2: Then resize to 224x224 (classifier input size)
     const resizedData = this.resize(intermediateData, intermediateWidth, intermediateHeight, this.inputSize, this.inputSize)
 
-    // Convert to float32, normalize with ImageNet stats
+    // Convert to float32, normalize with the model's per-channel stats
+    const { mean, std } = this.info
     const float32Data = new Float32Array(3 * this.inputSize * this.inputSize)
 
     for (let i = 0; i < this.inputSize * this.inputSize; i++) {
@@ -60,12 +137,12 @@ export class CardClassifier {
       const g = resizedData[i * 4 + 1] / 255
       const b = resizedData[i * 4 + 2] / 255
 
-      float32Data[i] = (r - this.mean[0]) / this.std[0]
-      float32Data[this.inputSize * this.inputSize + i] = (g - this.mean[1]) / this.std[1]
-      float32Data[2 * this.inputSize * this.inputSize + i] = (b - this.mean[2]) / this.std[2]
+      float32Data[i] = (r - mean[0]) / std[0]
+      float32Data[this.inputSize * this.inputSize + i] = (g - mean[1]) / std[1]
+      float32Data[2 * this.inputSize * this.inputSize + i] = (b - mean[2]) / std[2]
     }
 
-    return new ort.Tensor('float32', float32Data, [1, 3, this.inputSize, this.inputSize])
+    return float32Data
   }
 
   private resize(
@@ -96,11 +173,23 @@ export class CardClassifier {
     return result
   }
 
-  private postprocess(outputs: ort.InferenceSession.OnnxValueMapType): ClassificationResult {
-    const shapeLogits = outputs['shape']?.data as Float32Array || new Float32Array(3)
-    const colorLogits = outputs['color']?.data as Float32Array || new Float32Array(3)
-    const numberLogits = outputs['number']?.data as Float32Array || new Float32Array(3)
-    const shadingLogits = outputs['shading']?.data as Float32Array || new Float32Array(3)
+  private postprocess(
+    outputs: ort.InferenceSession.OnnxValueMapType,
+    index: number,
+    batchSize: number
+  ): ClassificationResult {
+    // Each head outputs [batch, classes]; take this image's row
+    const row = (head: HeadName): Float32Array => {
+      const data = outputs[this.info.outputs[head]]?.data as Float32Array | undefined
+      if (!data) return new Float32Array(3)
+      const classes = data.length / batchSize
+      return data.slice(index * classes, (index + 1) * classes)
+    }
+
+    const shapeLogits = row('shape')
+    const colorLogits = row('color')
+    const numberLogits = row('number')
+    const shadingLogits = row('shading')
 
     return {
       shape: this.argmax(shapeLogits),
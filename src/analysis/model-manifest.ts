@@ -0,0 +1,129 @@
+/**
+ * Model manifest (public/models/manifest.json): which classifier to load and
+ * how to feed it. Describes each model's file, version, SHA-256 and
+ * preprocessing so a new export only needs a new manifest entry.
+ */
+
+// Classifier heads, in the order of ClassificationResult
+export type HeadName = 'shape' | 'color' | 'number' | 'shading'
+
+export interface ModelInfo {
+  file: string // relative to the manifest
+  version: string
+  sha256: string | null // hex digest of the file; null skips the check in development
+  inputName: string
+  inputSize: number // square input, e.g. 224
+  mean: [number, number, number] // per-channel RGB normalisation
+  std: [number, number, number]
+  outputs: Record<HeadName, string> // output tensor name of each head
+}
+
+export type ModelManifest = Record<string, ModelInfo>
+
+// Download progress in bytes; total is null when the server does not say
+export interface LoadProgress {
+  loaded: number
+  total: number | null
+}
+
+// Used when a model is loaded without a manifest (matches the original export)
+export const DEFAULT_MODEL_INFO: ModelInfo = {
+  file: 'classifier.onnx',
+  version: 'unknown',
+  sha256: null,
+  inputName: 'input',
+  inputSize: 224,
+  mean: [0.485, 0.456, 0.406],
+  std: [0.229, 0.224, 0.225],
+  outputs: { shape: 'shape', color: 'color', number: 'number', shading: 'shading' },
+}
+
+/**
+ * Check a manifest entry has every field the classifier relies on.
+ */
+export function validateModelInfo(name: string, info: Partial<ModelInfo> | undefined): ModelInfo {
+  if (!info) throw new Error(`Model manifest has no "${name}" entry`)
+  const missing = (['file', 'version', 'inputName', 'inputSize', 'mean', 'std', 'outputs'] as const).filter(
+    (key) => info[key] === undefined
+  )
+  if (missing.length > 0) {
+    throw new Error(`Model manifest entry "${name}" is missing ${missing.join(', ')}`)
+  }
+  if (info.mean!.length !== 3 || info.std!.length !== 3) {
+    throw new Error(`Model manifest entry "${name}" needs 3 mean and 3 std values`)
+  }
+  return { sha256: null, ...info } as ModelInfo
+}
+
+/**
+ * Verify bytes against an expected SHA-256 hex digest.
+ */
+export async function verifySha256(bytes: Uint8Array, expected: string, label: string): Promise<void> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource)
+  const actual = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+  if (actual !== expected.toLowerCase()) {
+    throw new Error(`${label} is corrupt or out of date (SHA-256 ${actual.slice(0, 12)}…, expected ${expected.slice(0, 12)}…)`)
+  }
+}
+
+/**
+ * Read a response body, reporting progress as chunks arrive.
+ */
+async function readWithProgress(response: Response, onProgress?: (progress: LoadProgress) => void): Promise<Uint8Array> {
+  const header = response.headers.get('Content-Length')
+  const total = header ? Number(header) : null
+  if (!response.body) return new Uint8Array(await response.arrayBuffer())
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.length
+    onProgress?.({ loaded, total })
+  }
+
+  const bytes = new Uint8Array(loaded)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+/**
+ * Fetch a model described by the manifest at `manifestUrl`, verifying its
+ * hash. Resolves with the model's description and bytes.
+ */
+export async function fetchModel(
+  manifestUrl: string,
+  name: string,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<{ info: ModelInfo; bytes: Uint8Array }> {
+  const manifestResponse = await fetch(manifestUrl)
+  if (!manifestResponse.ok) {
+    throw new Error(`Could not load the model manifest (${manifestResponse.status} ${manifestResponse.statusText})`)
+  }
+  const manifest = (await manifestResponse.json()) as ModelManifest
+  const info = validateModelInfo(name, manifest[name])
+
+  const modelUrl = new URL(info.file, new URL(manifestUrl, self.location.href)).href
+  const response = await fetch(modelUrl)
+  if (!response.ok) {
+    throw new Error(`Could not download the ${name} model ${info.version} (${response.status} ${response.statusText})`)
+  }
+  const bytes = await readWithProgress(response, onProgress)
+
+  if (info.sha256) {
+    await verifySha256(bytes, info.sha256, `The ${name} model ${info.version}`)
+  } else if (import.meta.env.PROD) {
+    // Production builds fill every hash in, so a missing one means a tampered or stale manifest
+    throw new Error(`The model manifest has no SHA-256 for the ${name} model ${info.version}`)
+  } else {
+    console.warn(`No SHA-256 for the ${name} model in the manifest; skipping the integrity check`)
+  }
+  return { info, bytes }
+}
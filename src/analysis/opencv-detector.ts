@@ -13,6 +13,94 @@ export interface CardDetection {
   confidence: number;
 }
 
+// One pass of thresholds; several passes are run and their cards merged
+export interface ThresholdPreset {
+  sThresh: number;   // card white: saturation at most this
+  vThresh: number;   // card white: value (brightness) at least this
+  cannyLow: number;
+  cannyHigh: number;
+  morphSize: number; // closing kernel size, odd
+}
+
+export interface DetectorConfig {
+  maxWidth: number;         // frames are downscaled to this width first
+  presets: ThresholdPreset[];
+  minAreaRatio: number;     // card area as a fraction of the frame
+  maxAreaRatio: number;
+  minFillRatio: number;     // contour area / its rotated rectangle
+  minAspect: number;        // long side / short side of the rectangle
+  maxAspect: number;
+  minSaturationStd: number; // cards have coloured symbols, so not uniform
+  minVisibleRatio: number;  // share of the card inside the frame
+}
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = {
+  maxWidth: 1200,
+  presets: [
+    { sThresh: 60, vThresh: 140, cannyLow: 30, cannyHigh: 100, morphSize: 5 },  // Strict white
+    { sThresh: 80, vThresh: 120, cannyLow: 40, cannyHigh: 120, morphSize: 7 },  // Relaxed white
+    { sThresh: 100, vThresh: 100, cannyLow: 50, cannyHigh: 150, morphSize: 9 }, // Very relaxed (shadows)
+  ],
+  minAreaRatio: 0.005, // RELAXED for distant cards
+  maxAreaRatio: 0.5,
+  minFillRatio: 0.6,   // RELAXED for perspective distortion
+  minAspect: 1.1,      // cards are ~1.4:1, allow more variance for perspective
+  maxAspect: 2.2,
+  minSaturationStd: 8,
+  minVisibleRatio: 0.85,
+};
+
+// Narrower working copies leave too few pixels per card
+const MIN_WORKING_WIDTH = 100;
+const MAX_WORKING_WIDTH = 4000;
+
+/**
+ * Bring a config edited by hand (or stored by an older version) into range:
+ * thresholds within 0-255, an odd closing kernel of at least 1, ratios within
+ * 0-1, and each maximum at least its minimum (a maximum below is raised).
+ */
+export function clampDetectorConfig(config: DetectorConfig): DetectorConfig {
+  const minAreaRatio = clamp(config.minAreaRatio, 0, 1);
+  const minAspect = Math.max(1, config.minAspect);
+  return {
+    maxWidth: clamp(Math.round(config.maxWidth), MIN_WORKING_WIDTH, MAX_WORKING_WIDTH),
+    presets: config.presets.map(preset => {
+      const cannyLow = clamp(Math.round(preset.cannyLow), 0, 255);
+      const morphSize = Math.max(1, Math.round(preset.morphSize));
+      return {
+        sThresh: clamp(Math.round(preset.sThresh), 0, 255),
+        vThresh: clamp(Math.round(preset.vThresh), 0, 255),
+        cannyLow,
+        cannyHigh: clamp(Math.round(preset.cannyHigh), cannyLow, 255),
+        morphSize: morphSize % 2 === 0 ? morphSize + 1 : morphSize,
+      };
+    }),
+    minAreaRatio,
+    maxAreaRatio: clamp(config.maxAreaRatio, minAreaRatio, 1),
+    minFillRatio: clamp(config.minFillRatio, 0, 1),
+    minAspect,
+    maxAspect: Math.max(minAspect, config.maxAspect),
+    minSaturationStd: Math.max(0, config.minSaturationStd),
+    minVisibleRatio: clamp(config.minVisibleRatio, 0, 1),
+  };
+}
+
+// Auto-tuning works on a small copy of the frame
+const TUNE_WIDTH = 400;
+// Bright blobs smaller than this fraction of the frame are glare or symbols, not cards
+const MIN_BLOB_RATIO = 0.0005;
+
+// Splitting merged contours of touching cards
+const CARD_ASPECT = 1.55;           // a SET card's long side / short side
+const MERGED_AREA_FACTOR = 1.8;     // a "card" this many times the typical card may be several
+const CORE_FRACTIONS = [0.5, 0.65, 0.8]; // distance thresholds tried for per-card cores
+const SPLIT_PADDING = 4;
+const OUTLINE_MARGIN = 9;           // edges this close to the outline are the outline
+const MAX_CUT_LINES = 8;            // longest straight edges tried as cuts
+const CUT_THICKNESS = 3;
+const MIN_PIECE_SIDE = 0.4;         // pieces narrower than this share of the merged contour are slivers
+const MAX_GRID = 4;
+
 /**
  * Order corners as [topLeft, topRight, bottomRight, bottomLeft]
  */
@@ -44,11 +132,131 @@ function rectanglesOverlap(a: [number, number, number, number], b: [number, numb
   return overlapArea > minArea * threshold;
 }
 
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 256-bin histogram of 8-bit values, counting only where `mask` is set.
+ */
+function histogram(values: Uint8Array, mask?: Uint8Array): number[] {
+  const bins = new Array(256).fill(0);
+  for (let i = 0; i < values.length; i++) {
+    if (!mask || mask[i]) bins[values[i]]++;
+  }
+  return bins;
+}
+
+/**
+ * Smallest value with at least `fraction` of the histogram at or below it.
+ */
+function percentile(bins: number[], fraction: number): number {
+  const total = bins.reduce((sum, n) => sum + n, 0);
+  let seen = 0;
+  for (let value = 0; value < 256; value++) {
+    seen += bins[value];
+    if (seen >= total * fraction) return value;
+  }
+  return 255;
+}
+
+/**
+ * Derive the thresholds from the frame instead of using fixed presets.
+ *
+ * Otsu on V separates the bright cards from the table. The saturation of those
+ * bright pixels says how tinted "white" is under this light (warm bulbs push
+ * it well above the default cut-off). The median grey level sets the Canny
+ * thresholds, and the bright blobs' median size gives the expected card size,
+ * which scales the area gate and the closing kernel for small, far-away cards.
+ * The other gates are kept from `base`.
+ */
+export function tuneDetectorConfig(imageData: ImageData, base: DetectorConfig = DEFAULT_DETECTOR_CONFIG): DetectorConfig {
+  if (typeof cv === 'undefined') return base;
+
+  const src = cv.matFromImageData(imageData);
+  const tuneScale = Math.min(1, TUNE_WIDTH / src.cols);
+  const small = new cv.Mat();
+  cv.resize(src, small, new cv.Size(Math.round(src.cols * tuneScale), Math.round(src.rows * tuneScale)), 0, 0, cv.INTER_AREA);
+  const bgr = new cv.Mat();
+  cv.cvtColor(small, bgr, cv.COLOR_RGBA2BGR);
+  const hsv = new cv.Mat();
+  cv.cvtColor(bgr, hsv, cv.COLOR_BGR2HSV);
+  const hsvSplit = new cv.MatVector();
+  cv.split(hsv, hsvSplit);
+  const S = hsvSplit.get(1);
+  const V = hsvSplit.get(2);
+  const gray = new cv.Mat();
+  cv.cvtColor(bgr, gray, cv.COLOR_BGR2GRAY);
+
+  // Bright pixels (the cards, mostly) and how saturated they are
+  const bright = new cv.Mat();
+  const vOtsu = cv.threshold(V, bright, 0, 255, cv.THRESH_BINARY + cv.THRESH_OTSU);
+  const sWhite = percentile(histogram(S.data, bright.data), 0.8);
+  const grayMedian = percentile(histogram(gray.data), 0.5);
+
+  // Expected card area from the bright blobs, ignoring specks and the background
+  const frameArea = small.rows * small.cols;
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  cv.findContours(bright, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+  const blobRatios: number[] = [];
+  for (let i = 0; i < contours.size(); i++) {
+    const c = contours.get(i);
+    const ratio = cv.contourArea(c) / frameArea;
+    if (ratio >= MIN_BLOB_RATIO && ratio <= base.maxAreaRatio) blobRatios.push(ratio);
+    c.delete();
+  }
+  blobRatios.sort((a, b) => a - b);
+  // Too few blobs to tell a card from clutter
+  const cardRatio = blobRatios.length >= 3 ? blobRatios[Math.floor(blobRatios.length / 2)] : null;
+
+  src.delete();
+  small.delete();
+  bgr.delete();
+  hsv.delete();
+  hsvSplit.delete();
+  S.delete();
+  V.delete();
+  gray.delete();
+  bright.delete();
+  contours.delete();
+  hierarchy.delete();
+
+  // Closing kernel about 1/25 of the card's short side at detection resolution
+  let morphSize = base.presets[0]?.morphSize ?? 5;
+  if (cardRatio !== null) {
+    const detectionWidth = Math.min(imageData.width, base.maxWidth);
+    const detectionArea = detectionWidth * imageData.height * (detectionWidth / imageData.width);
+    const shortSide = Math.sqrt((cardRatio * detectionArea) / 1.5);
+    morphSize = clamp(Math.round(shortSide / 25), 3, 9);
+    if (morphSize % 2 === 0) morphSize++;
+  }
+
+  const cannyLow = clamp(Math.round(0.66 * grayMedian), 10, 100);
+  const cannyHigh = clamp(Math.round(1.33 * grayMedian), cannyLow + 20, 250);
+  const steps = Math.max(1, base.presets.length);
+
+  // Each further preset is more forgiving, as with the fixed presets
+  const presets = Array.from({ length: steps }, (_, i) => ({
+    sThresh: clamp(Math.round(sWhite + 15 + 20 * i), 30, 180),
+    vThresh: clamp(Math.round(vOtsu - 20 * i), 60, 220),
+    cannyLow: Math.round(cannyLow * (1 + 0.25 * i)),
+    cannyHigh: Math.min(255, Math.round(cannyHigh * (1 + 0.25 * i))),
+    morphSize: Math.min(11, morphSize + 2 * i),
+  }));
+
+  return {
+    ...base,
+    presets,
+    minAreaRatio: cardRatio !== null ? clamp(cardRatio * 0.35, 0.0005, 0.05) : base.minAreaRatio,
+  };
+}
+
 /**
  * Detect cards in an image using OpenCV contour detection.
  * Returns bounding boxes and corner points for each detected card.
  */
-export function detectCardsOpenCV(imageData: ImageData): CardDetection[] {
+export function detectCardsOpenCV(imageData: ImageData, config: DetectorConfig = DEFAULT_DETECTOR_CONFIG): CardDetection[] {
   if (typeof cv === 'undefined') {
     console.warn('OpenCV not loaded');
     return [];
@@ -60,7 +268,7 @@ export function detectCardsOpenCV(imageData: ImageData): CardDetection[] {
   cv.cvtColor(src, bgr, cv.COLOR_RGBA2BGR);
 
   // Resize for faster processing
-  const maxWidth = 1200;
+  const maxWidth = config.maxWidth;
   let img = bgr;
   let scale = 1;
 
@@ -77,14 +285,8 @@ export function detectCardsOpenCV(imageData: ImageData): CardDetection[] {
   const allCards: CardDetection[] = [];
 
   // Try multiple detection strategies and combine results
-  const strategies = [
-    { sThresh: 60, vThresh: 140, cannyLow: 30, cannyHigh: 100, morphSize: 5 },  // Strict white
-    { sThresh: 80, vThresh: 120, cannyLow: 40, cannyHigh: 120, morphSize: 7 },  // Relaxed white
-    { sThresh: 100, vThresh: 100, cannyLow: 50, cannyHigh: 150, morphSize: 9 }, // Very relaxed (shadows)
-  ];
-
-  for (const strategy of strategies) {
-    const detections = detectWithStrategy(img, scale, imgArea, strategy);
+  for (const strategy of config.presets) {
+    const detections = detectWithStrategy(img, scale, imgArea, strategy, config);
     
     // Add detections that don't overlap significantly with existing ones
     for (const det of detections) {
@@ -115,13 +317,15 @@ export function detectCardsOpenCV(imageData: ImageData): CardDetection[] {
 }
 
 /**
- * Detect cards with a specific strategy (threshold parameters)
+ * Detect cards with a specific strategy (threshold parameters).
+ * Contours of touching cards, merged by the closing, are split back up.
  */
 function detectWithStrategy(
   img: any,
   scale: number,
   imgArea: number,
-  params: { sThresh: number; vThresh: number; cannyLow: number; cannyHigh: number; morphSize: number }
+  params: ThresholdPreset,
+  config: DetectorConfig
 ): CardDetection[] {
   const cards: CardDetection[] = [];
 
@@ -163,93 +367,69 @@ function detectWithStrategy(
   const hierarchy = new cv.Mat();
   cv.findContours(combined, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
 
+  // Contours that pass as one card, and ones with room for several cards
+  const singles: { contour: any; rect: any; area: number }[] = [];
+  const candidates: { contour: any; rect: any; area: number }[] = [];
+
   for (let i = 0; i < contours.size(); i++) {
     const c = contours.get(i);
     const area = cv.contourArea(c);
-
-    // Filter by area - RELAXED for distant cards
-    if (area < imgArea * 0.005) { c.delete(); continue; }  // 0.5% minimum
-    if (area > imgArea * 0.50) { c.delete(); continue; }   // 50% maximum
-
-    // Get rotated rectangle
     const rect = cv.minAreaRect(c);
-    const w = rect.size.width, h = rect.size.height;
-    const rectArea = w * h;
-    if (rectArea <= 1) { c.delete(); continue; }
-
-    // Fill ratio check - RELAXED for perspective distortion
-    const fillRatio = area / rectArea;
-    if (fillRatio < 0.60) { c.delete(); continue; }
+    const verdict = checkContourShape(area, rect, imgArea, null, config);
+    if (verdict === 'card') {
+      singles.push({ contour: c, rect, area });
+    } else if (verdict === 'merged') {
+      candidates.push({ contour: c, rect, area });
+    } else {
+      c.delete();
+    }
+  }
 
-    // Aspect ratio check (cards are ~1.4:1, allow more variance for perspective)
-    const aspect = Math.max(h / Math.max(1, w), w / Math.max(1, h));
-    if (aspect < 1.1 || aspect > 2.2) { c.delete(); continue; }
+  // Once the typical card size is known, only contours clearly bigger than it
+  // are merged cards
+  const cardArea = singles.length >= 3 ? median(singles.map(s => s.area)) : null;
+  const merged: any[] = [];
+  for (const candidate of candidates) {
+    if (cardArea === null || holdsSeveralCards(candidate.area, candidate.rect, imgArea, cardArea, config)) {
+      merged.push(candidate.contour);
+    } else {
+      candidate.contour.delete();
+    }
+  }
 
-    // Get bounding rect for content analysis
-    const boundRect = cv.boundingRect(c);
-    
-    // Check that the card region has internal content (not uniform)
-    // Real cards have colored symbols; false positives are often uniform
-    const roi = img.roi(boundRect);
-    const roiHsv = new cv.Mat();
-    cv.cvtColor(roi, roiHsv, cv.COLOR_BGR2HSV);
-    const roiChannels = new cv.MatVector();
-    cv.split(roiHsv, roiChannels);
-    const roiS = roiChannels.get(1);
-    
-    // Calculate saturation stats - cards should have some colored content
-    const mean = new cv.Mat();
-    const stddev = new cv.Mat();
-    cv.meanStdDev(roiS, mean, stddev);
-    const satStd = stddev.data64F[0];
-    
-    // Cleanup ROI analysis
-    roi.delete();
-    roiHsv.delete();
-    roiChannels.delete();
-    roiS.delete();
-    mean.delete();
-    stddev.delete();
-    
-    // Cards should have some color variance (symbols)
-    // Pure white/gray regions have very low saturation stddev
-    if (satStd < 8) { c.delete(); continue; }  // Too uniform, likely not a card
-
-    // Get corner points
-    const pts = cv.RotatedRect.points(rect);
-    const corners = pts.map((p: any) => ({
-      x: p.x / scale,
-      y: p.y / scale
-    }));
-
-    // Get bounding box
-    const ordered = orderCorners(corners);
-    const xs = ordered.map(p => p.x);
-    const ys = ordered.map(p => p.y);
-    const bbox: [number, number, number, number] = [
-      Math.min(...xs),
-      Math.min(...ys),
-      Math.max(...xs),
-      Math.max(...ys)
-    ];
-
-    // Reject if bbox is mostly outside the image (partial detections at edges)
-    const imgW = img.cols / scale;
-    const imgH = img.rows / scale;
-    const bboxW = bbox[2] - bbox[0];
-    const bboxH = bbox[3] - bbox[1];
-    const visibleX = Math.min(bbox[2], imgW) - Math.max(bbox[0], 0);
-    const visibleY = Math.min(bbox[3], imgH) - Math.max(bbox[1], 0);
-    const visibleRatio = (visibleX * visibleY) / (bboxW * bboxH);
-    if (visibleRatio < 0.85) { c.delete(); continue; }  // Card mostly outside frame
-
-    cards.push({
-      bbox,
-      corners: ordered,
-      confidence: fillRatio
-    });
+  const singleDetection = (single: { contour: any; rect: any; area: number }) => {
+    const rectArea = single.rect.size.width * single.rect.size.height;
+    return rectToDetection(img, single.rect, cv.boundingRect(single.contour), single.area / rectArea, scale, config);
+  };
+  const pieceDetections = (pieces: ContourPiece[]) =>
+    pieces
+      .filter(piece => checkContourShape(piece.area, piece.rect, imgArea, cardArea, config) === 'card')
+      .map(piece => {
+        const rectArea = piece.rect.size.width * piece.rect.size.height;
+        return rectToDetection(img, piece.rect, rotatedBoundingRect(img, piece.rect), piece.area / rectArea, scale, config);
+      })
+      .filter((card): card is CardDetection => card !== null);
+
+  for (const single of singles) {
+    let found: CardDetection[] = [];
+    // A "card" much bigger than the typical card may be several cards whose
+    // outline happens to pass the shape gates (e.g. a 2x2 block), or just a
+    // near card in a perspective shot. Only a seam between cards splits it.
+    if (cardArea !== null && single.area > cardArea * MERGED_AREA_FACTOR) {
+      found = pieceDetections(splitMergedContour(img, single.contour, cardArea, config, false));
+    }
+    if (found.length < 2) {
+      const card = singleDetection(single);
+      found = card ? [card] : [];
+    }
+    cards.push(...found);
+    single.contour.delete();
+  }
 
-    c.delete();
+  // Recover the cards inside merged contours
+  for (const contour of merged) {
+    cards.push(...pieceDetections(splitMergedContour(img, contour, cardArea, config, true)));
+    contour.delete();
   }
 
   // Cleanup
@@ -270,6 +450,429 @@ function detectWithStrategy(
   return cards;
 }
 
+/**
+ * Check a contour's size and shape against the card gates. One that fails
+ * them but has room for at least two cards may be touching cards merged by
+ * the closing, and is worth splitting.
+ */
+function checkContourShape(
+  area: number,
+  rect: any,
+  imgArea: number,
+  cardArea: number | null,
+  config: DetectorConfig
+): 'card' | 'merged' | 'reject' {
+  const w = rect.size.width, h = rect.size.height;
+  const rectArea = w * h;
+  const minArea = imgArea * config.minAreaRatio;
+  if (area < minArea || rectArea <= 1) return 'reject';
+
+  const fillRatio = area / rectArea;
+  const aspect = Math.max(h / Math.max(1, w), w / Math.max(1, h));
+  if (
+    area <= imgArea * config.maxAreaRatio &&
+    fillRatio >= config.minFillRatio &&
+    aspect >= config.minAspect &&
+    aspect <= config.maxAspect
+  ) {
+    return 'card';
+  }
+  return holdsSeveralCards(area, rect, imgArea, cardArea, config) ? 'merged' : 'reject';
+}
+
+/**
+ * Whether a contour is big enough to be several touching cards: clearly
+ * bigger than the typical card on this frame, or, when that is unknown, able
+ * to hold at least two cards that pass the size and shape gates.
+ */
+function holdsSeveralCards(area: number, rect: any, imgArea: number, cardArea: number | null, config: DetectorConfig): boolean {
+  if (area > imgArea * config.maxAreaRatio) return false;
+  if (cardArea !== null) return area >= cardArea * MERGED_AREA_FACTOR;
+  const w = rect.size.width, h = rect.size.height;
+  return cardGrid(w, h, area / Math.max(1, w * h), null, imgArea * config.minAreaRatio, config) !== null;
+}
+
+/**
+ * Turn a card's rotated rectangle into a detection, checking that the card
+ * has coloured content and is mostly inside the frame.
+ */
+function rectToDetection(
+  img: any,
+  rect: any,
+  boundRect: any,
+  fillRatio: number,
+  scale: number,
+  config: DetectorConfig
+): CardDetection | null {
+  // Check that the card region has internal content (not uniform)
+  // Real cards have colored symbols; false positives are often uniform
+  const roi = img.roi(boundRect);
+  const roiHsv = new cv.Mat();
+  cv.cvtColor(roi, roiHsv, cv.COLOR_BGR2HSV);
+  const roiChannels = new cv.MatVector();
+  cv.split(roiHsv, roiChannels);
+  const roiS = roiChannels.get(1);
+
+  // Calculate saturation stats - cards should have some colored content
+  const mean = new cv.Mat();
+  const stddev = new cv.Mat();
+  cv.meanStdDev(roiS, mean, stddev);
+  const satStd = stddev.data64F[0];
+
+  // Cleanup ROI analysis
+  roi.delete();
+  roiHsv.delete();
+  roiChannels.delete();
+  roiS.delete();
+  mean.delete();
+  stddev.delete();
+
+  // Cards should have some color variance (symbols)
+  // Pure white/gray regions have very low saturation stddev
+  if (satStd < config.minSaturationStd) return null;  // Too uniform, likely not a card
+
+  // Get corner points
+  const pts = cv.RotatedRect.points(rect);
+  const corners = pts.map((p: any) => ({
+    x: p.x / scale,
+    y: p.y / scale
+  }));
+
+  // Get bounding box
+  const ordered = orderCorners(corners);
+  const xs = ordered.map(p => p.x);
+  const ys = ordered.map(p => p.y);
+  const bbox: [number, number, number, number] = [
+    Math.min(...xs),
+    Math.min(...ys),
+    Math.max(...xs),
+    Math.max(...ys)
+  ];
+
+  // Reject if bbox is mostly outside the image (partial detections at edges)
+  const imgW = img.cols / scale;
+  const imgH = img.rows / scale;
+  const bboxW = bbox[2] - bbox[0];
+  const bboxH = bbox[3] - bbox[1];
+  const visibleX = Math.min(bbox[2], imgW) - Math.max(bbox[0], 0);
+  const visibleY = Math.min(bbox[3], imgH) - Math.max(bbox[1], 0);
+  const visibleRatio = (visibleX * visibleY) / (bboxW * bboxH);
+  if (visibleRatio < config.minVisibleRatio) return null;  // Card mostly outside frame
+
+  return {
+    bbox,
+    corners: ordered,
+    confidence: fillRatio
+  };
+}
+
+/**
+ * Axis-aligned bounds of a rotated rectangle, clipped to the image.
+ */
+function rotatedBoundingRect(img: any, rect: any): any {
+  const pts = cv.RotatedRect.points(rect);
+  const x1 = Math.max(0, Math.floor(Math.min(...pts.map((p: any) => p.x))));
+  const y1 = Math.max(0, Math.floor(Math.min(...pts.map((p: any) => p.y))));
+  const x2 = Math.min(img.cols, Math.ceil(Math.max(...pts.map((p: any) => p.x))));
+  const y2 = Math.min(img.rows, Math.ceil(Math.max(...pts.map((p: any) => p.y))));
+  return new cv.Rect(x1, y1, Math.max(1, x2 - x1), Math.max(1, y2 - y1));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// A piece of a merged contour: its rotated rectangle and area, in image pixels
+type ContourPiece = { rect: any; area: number };
+
+/**
+ * Split the contour of several touching or overlapping cards into one piece
+ * per card: by watershed where the outline leaves a notch between cards, else
+ * along the straight edge where they meet, else (with `useGrid` and a typical
+ * card size) by cutting its rectangle into a grid of card-sized cells.
+ */
+function splitMergedContour(
+  img: any,
+  contour: any,
+  cardArea: number | null,
+  config: DetectorConfig,
+  useGrid: boolean
+): ContourPiece[] {
+  const imgArea = img.rows * img.cols;
+  const minCardArea = imgArea * config.minAreaRatio;
+  let pieces = splitByWatershed(img, contour, minCardArea);
+  if (pieces.length < 2) pieces = splitByEdges(img, contour, imgArea, cardArea, config);
+  // Without a typical card size a grid is guesswork: a sheet of paper would become "cards"
+  if (pieces.length < 2 && useGrid && cardArea !== null) pieces = splitByGrid(contour, cardArea, minCardArea, config);
+  return pieces;
+}
+
+/**
+ * The contour's bounding box with a margin, clipped to the image.
+ */
+function paddedBounds(img: any, contour: any): any {
+  const bound = cv.boundingRect(contour);
+  const x = Math.max(0, bound.x - SPLIT_PADDING);
+  const y = Math.max(0, bound.y - SPLIT_PADDING);
+  return new cv.Rect(
+    x,
+    y,
+    Math.min(img.cols, bound.x + bound.width + SPLIT_PADDING) - x,
+    Math.min(img.rows, bound.y + bound.height + SPLIT_PADDING) - y
+  );
+}
+
+/**
+ * The contour filled in, in the coordinates of `roiRect`.
+ */
+function fillContour(contour: any, roiRect: any): any {
+  const mask = cv.Mat.zeros(roiRect.height, roiRect.width, cv.CV_8UC1);
+  const contourVec = new cv.MatVector();
+  contourVec.push_back(contour);
+  const noHierarchy = new cv.Mat();
+  cv.drawContours(mask, contourVec, 0, new cv.Scalar(255), -1, cv.LINE_8, noHierarchy, 0, new cv.Point(-roiRect.x, -roiRect.y));
+  contourVec.delete();
+  noHierarchy.delete();
+  return mask;
+}
+
+/**
+ * Each region of a mask at least `minArea` big, in image coordinates.
+ */
+function maskPieces(mask: any, roiRect: any, minArea: number): ContourPiece[] {
+  const pieces: ContourPiece[] = [];
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  cv.findContours(mask, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+  for (let i = 0; i < contours.size(); i++) {
+    const c = contours.get(i);
+    const area = cv.contourArea(c);
+    if (area >= minArea) {
+      const rect = cv.minAreaRect(c);
+      pieces.push({
+        rect: { center: { x: rect.center.x + roiRect.x, y: rect.center.y + roiRect.y }, size: rect.size, angle: rect.angle },
+        area
+      });
+    }
+    c.delete();
+  }
+  contours.delete();
+  hierarchy.delete();
+  return pieces;
+}
+
+/**
+ * The distance to the outline peaks in the middle of each card and dips where
+ * cards join, so thresholding it leaves one core per card. Watershed on the
+ * image grows the cores back out, with the boundaries following the edges
+ * between the cards.
+ */
+function splitByWatershed(img: any, contour: any, minArea: number): ContourPiece[] {
+  const roiRect = paddedBounds(img, contour);
+  const mask = fillContour(contour, roiRect);
+  const dist = new cv.Mat();
+  cv.distanceTransform(mask, dist, cv.DIST_L2, 5);
+  const maxDist = cv.minMaxLoc(dist).maxVal;
+
+  // Raise the threshold until the cores come apart
+  const coresF = new cv.Mat();
+  const cores = new cv.Mat();
+  const markers = new cv.Mat();
+  let count = 0;
+  for (const fraction of CORE_FRACTIONS) {
+    cv.threshold(dist, coresF, maxDist * fraction, 255, cv.THRESH_BINARY);
+    coresF.convertTo(cores, cv.CV_8U);
+    count = cv.connectedComponents(cores, markers) - 1;
+    if (count >= 2) break;
+  }
+
+  const pieces: ContourPiece[] = [];
+  if (count >= 2) {
+    // Cores are labelled 1..count; the table outside the contour gets its own
+    // label and the rest (0) is left for watershed to assign
+    const labels = markers.data32S;
+    const inside = mask.data;
+    for (let i = 0; i < labels.length; i++) {
+      if (!inside[i]) labels[i] = count + 1;
+    }
+    const roi = img.roi(roiRect);
+    cv.watershed(roi, markers);
+    roi.delete();
+
+    const pieceMask = new cv.Mat(roiRect.height, roiRect.width, cv.CV_8UC1);
+    for (let label = 1; label <= count; label++) {
+      // Views into the wasm heap go stale when it grows, so fetch them again
+      const pieceLabels = markers.data32S;
+      const pixels = pieceMask.data;
+      for (let i = 0; i < pieceLabels.length; i++) {
+        pixels[i] = pieceLabels[i] === label ? 255 : 0;
+      }
+      pieces.push(...maskPieces(pieceMask, roiRect, minArea));
+    }
+    pieceMask.delete();
+  }
+
+  mask.delete();
+  dist.delete();
+  coresF.delete();
+  cores.delete();
+  markers.delete();
+
+  return pieces;
+}
+
+/**
+ * Cards lying against each other leave a straight line where they meet (their
+ * edges, or a thin shadow). Find long straight edges inside the contour and
+ * cut along them, keeping each cut that leaves only card-sized pieces (a cut
+ * along a symbol's side leaves a sliver).
+ */
+function splitByEdges(img: any, contour: any, imgArea: number, cardArea: number | null, config: DetectorConfig): ContourPiece[] {
+  const roiRect = paddedBounds(img, contour);
+  const minArea = imgArea * config.minAreaRatio;
+  const outline = cv.minAreaRect(contour);
+  const minSide = MIN_PIECE_SIDE * Math.min(outline.size.width, outline.size.height);
+  let cut = fillContour(contour, roiRect);
+
+  // Edges inside the contour, away from its outline. The seam between two
+  // white cards is faint, so the thresholds are low; symbols' edges are strong
+  // anyway and are weeded out by the piece check below.
+  const roi = img.roi(roiRect);
+  const gray = new cv.Mat();
+  cv.cvtColor(roi, gray, cv.COLOR_BGR2GRAY);
+  cv.GaussianBlur(gray, gray, new cv.Size(3, 3), 0);
+  const edges = new cv.Mat();
+  cv.Canny(gray, edges, 20, 60);
+  const inner = new cv.Mat();
+  const k = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(OUTLINE_MARGIN, OUTLINE_MARGIN));
+  cv.erode(cut, inner, k);
+  cv.bitwise_and(edges, inner, edges);
+
+  // Straight segments at least a good part of a card's short side long
+  const lines = new cv.Mat();
+  const minLength = 0.4 * Math.min(roiRect.width, roiRect.height);
+  cv.HoughLinesP(edges, lines, 1, Math.PI / 180, 30, minLength, 5);
+  const segments: number[][] = [];
+  for (let i = 0; i < lines.rows; i++) {
+    segments.push(Array.from(lines.data32S.slice(i * 4, i * 4 + 4)));
+  }
+  segments.sort((a, b) => Math.hypot(b[2] - b[0], b[3] - b[1]) - Math.hypot(a[2] - a[0], a[3] - a[1]));
+
+  let pieces = maskPieces(cut, roiRect, minArea);
+  const reach = roiRect.width + roiRect.height;
+  for (const [x1, y1, x2, y2] of segments.slice(0, MAX_CUT_LINES)) {
+    // Cut along the whole line, not just the part Canny found
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    const dx = (x2 - x1) / length, dy = (y2 - y1) / length;
+    const trial = cut.clone();
+    cv.line(
+      trial,
+      new cv.Point(Math.round(x1 - dx * reach), Math.round(y1 - dy * reach)),
+      new cv.Point(Math.round(x2 + dx * reach), Math.round(y2 + dy * reach)),
+      new cv.Scalar(0),
+      CUT_THICKNESS
+    );
+    const trialPieces = maskPieces(trial, roiRect, minArea);
+    const keep =
+      trialPieces.length > pieces.length &&
+      trialPieces.every(piece =>
+        Math.min(piece.rect.size.width, piece.rect.size.height) >= minSide &&
+        checkContourShape(piece.area, piece.rect, imgArea, cardArea, config) !== 'reject'
+      );
+    if (keep) {
+      cut.delete();
+      cut = trial;
+      pieces = trialPieces;
+    } else {
+      trial.delete();
+    }
+  }
+
+  cut.delete();
+  roi.delete();
+  gray.delete();
+  edges.delete();
+  inner.delete();
+  k.delete();
+  lines.delete();
+
+  return pieces.length >= 2 ? pieces : [];
+}
+
+/**
+ * The rows x cols grid (at least two cells) of a w x h rectangle whose cells
+ * are most card-shaped and closest to the typical card size, if known. Cells
+ * must pass the card gates and, with a typical size, be near it; null if no
+ * grid has such cells, i.e. the rectangle cannot hold two cards.
+ */
+function cardGrid(
+  w: number,
+  h: number,
+  fillRatio: number,
+  cardArea: number | null,
+  minCardArea: number,
+  config: DetectorConfig
+): { rows: number; cols: number } | null {
+  let best: { rows: number; cols: number } | null = null;
+  let bestScore = Infinity;
+  for (let rows = 1; rows <= MAX_GRID; rows++) {
+    for (let cols = 1; cols <= MAX_GRID; cols++) {
+      if (rows * cols < 2) continue;
+      const cellW = w / cols, cellH = h / rows;
+      const cellArea = cellW * cellH * fillRatio;
+      const aspect = Math.max(cellW, cellH) / Math.max(1, Math.min(cellW, cellH));
+      if (aspect < config.minAspect || aspect > config.maxAspect || cellArea < minCardArea) continue;
+      if (cardArea !== null && Math.abs(Math.log(cellArea / cardArea)) > Math.log(MERGED_AREA_FACTOR)) continue;
+      // Prefer card-shaped cells, the typical card size, then fewer cells
+      let score = Math.abs(Math.log(aspect / CARD_ASPECT)) + 0.01 * rows * cols;
+      if (cardArea !== null) score += Math.abs(Math.log(cellArea / cardArea));
+      if (score < bestScore) {
+        best = { rows, cols };
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Cut a merged contour's rectangle into the grid of card-sized cells that
+ * `cardGrid` picks. Only for contours that fill their rectangle, i.e. cards
+ * lying edge to edge, and that have room for at least two cards.
+ */
+function splitByGrid(contour: any, cardArea: number | null, minCardArea: number, config: DetectorConfig): ContourPiece[] {
+  const rect = cv.minAreaRect(contour);
+  const w = rect.size.width, h = rect.size.height;
+  const fillRatio = cv.contourArea(contour) / Math.max(1, w * h);
+  if (fillRatio < config.minFillRatio) return [];
+
+  const best = cardGrid(w, h, fillRatio, cardArea, minCardArea, config);
+  if (!best) return [];
+
+  // RotatedRect width runs along the angle, height perpendicular to it
+  const theta = rect.angle * Math.PI / 180;
+  const along = { x: Math.cos(theta), y: Math.sin(theta) };
+  const across = { x: -Math.sin(theta), y: Math.cos(theta) };
+  const cellW = w / best.cols, cellH = h / best.rows;
+  const pieces: ContourPiece[] = [];
+  for (let row = 0; row < best.rows; row++) {
+    for (let col = 0; col < best.cols; col++) {
+      const u = ((col + 0.5) / best.cols - 0.5) * w;
+      const v = ((row + 0.5) / best.rows - 0.5) * h;
+      pieces.push({
+        rect: {
+          center: { x: rect.center.x + along.x * u + across.x * v, y: rect.center.y + along.y * u + across.y * v },
+          size: { width: cellW, height: cellH },
+          angle: rect.angle
+        },
+        area: cellW * cellH * fillRatio
+      });
+    }
+  }
+  return pieces;
+}
+
 /**
  * Warp a detected card to a standard rectangle for classification.
  * Always outputs portrait orientation (taller than wide).
@@ -364,7 +967,7 @@ export function waitForOpenCV(timeout: number = 30000): Promise<boolean> {
       }
     }, 100);
     
-    window.addEventListener('opencv-loaded', () => {
+    self.addEventListener('opencv-loaded', () => {
       clearInterval(checkInterval);
       resolve(true);
     }, { once: true });
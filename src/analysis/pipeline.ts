@@ -0,0 +1,83 @@
+/**
+ * Detection + classification pipeline shared by the React hook and the CLI.
+ *
+ * OpenCV finds and warps each card, then the ML classifier reads its properties.
+ */
+
+import type { CardClassifier } from './inference'
+import {
+  DEFAULT_DETECTOR_CONFIG,
+  detectCardsOpenCV,
+  warpCardToImageData,
+  type CardDetection,
+  type DetectorConfig,
+} from './opencv-detector'
+import { indicesToCard } from '../game/solver'
+import type { Card, ClassificationResult } from '../types'
+
+// A detected card together with the raw classifier output for it
+export interface ClassifiedDetection {
+  detection: CardDetection
+  classification: ClassificationResult
+}
+
+/**
+ * Detect every card in an image and run the classifier on each one.
+ * Requires OpenCV to be loaded (global `cv`) and the classifier to be loaded.
+ */
+export async function detectAndClassify(
+  imageData: ImageData,
+  classifier: CardClassifier,
+  detector: DetectorConfig = DEFAULT_DETECTOR_CONFIG
+): Promise<ClassifiedDetection[]> {
+  // Step 1: Detect cards using OpenCV (robust contour detection)
+  const detections = detectCardsOpenCV(imageData, detector)
+
+  // Warp each card to an upright rectangle using corner points (handles rotation)
+  const warped: { detection: CardDetection; image: ImageData }[] = []
+  for (const detection of detections) {
+    const image = warpCardToImageData(imageData, detection.corners, 200, 300)
+    if (image) warped.push({ detection, image })
+  }
+
+  // Step 2: Classify all cards with one batched ML run
+  const classifications = await classifier.classifyBatch(warped.map((item) => item.image))
+  return warped.map(({ detection }, idx) => ({
+    detection,
+    classification: classifications[idx],
+  }))
+}
+
+/**
+ * Build a Card from a detection and its classification.
+ */
+export function toCard(id: number, { detection, classification }: ClassifiedDetection): Card {
+  const props = indicesToCard(
+    classification.shape,
+    classification.color,
+    classification.number,
+    classification.shading
+  )
+
+  return {
+    id,
+    bbox: detection.bbox,
+    corners: detection.corners,
+    confidence: detection.confidence,
+    probabilities: classification.probabilities,
+    ...props,
+  }
+}
+
+/**
+ * Detect every card in an image and classify its properties.
+ * Card ids are the index in the detection order.
+ */
+export async function detectAndClassifyCards(
+  imageData: ImageData,
+  classifier: CardClassifier,
+  detector: DetectorConfig = DEFAULT_DETECTOR_CONFIG
+): Promise<Card[]> {
+  const classified = await detectAndClassify(imageData, classifier, detector)
+  return classified.map((item, idx) => toCard(idx, item))
+}
@@ -0,0 +1,148 @@
+/**
+ * Main-thread handle on the solver worker.
+ *
+ * Wraps the message protocol in promises so callers can await results.
+ */
+
+import type { Backend, BackendSelection } from './backends'
+import type { LoadProgress } from './model-manifest'
+import type { DetectorConfig } from './opencv-detector'
+import type { ProcessedResult } from '../types'
+import type { DetectorSettings, SolverRequest, SolverResponse } from './worker-protocol'
+
+export interface LoadedSolver {
+  openCVLoaded: boolean // OpenCV is available for detection
+  modelVersion: string
+  backend: BackendSelection
+}
+
+export interface ProcessedFrame {
+  result: ProcessedResult
+  detector: DetectorConfig // the detector config used, after any auto-tuning
+}
+
+interface PendingFrame {
+  resolve: (frame: ProcessedFrame) => void
+  reject: (error: Error) => void
+}
+
+export class SolverWorkerClient {
+  private worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' })
+  private pending = new Map<number, PendingFrame>()
+  private nextId = 0
+  private loadPromise: Promise<LoadedSolver> | null = null
+  private rejectLoad: ((error: Error) => void) | null = null // while a load is in flight
+  private failure: Error | null = null // set once the worker is unusable
+
+  constructor() {
+    this.worker.addEventListener('message', (event: MessageEvent<SolverResponse>) => {
+      const response = event.data
+      if (response.type === 'result' || response.type === 'error') {
+        const pending = this.pending.get(response.id)
+        if (!pending) return
+        this.pending.delete(response.id)
+        if (response.type === 'result') {
+          pending.resolve({ result: response.result, detector: response.detector })
+        } else {
+          pending.reject(new Error(response.message))
+        }
+      }
+    })
+    // A worker that fails to start or crashes never answers, so fail whatever waits on it
+    this.worker.addEventListener('error', (event) => {
+      event.preventDefault()
+      this.fail(new Error(event.message ? `Solver worker failed: ${event.message}` : 'Solver worker failed to start'))
+    })
+    this.worker.addEventListener('messageerror', () => {
+      this.fail(new Error('Solver worker sent a message that could not be read'))
+    })
+  }
+
+  /**
+   * Load OpenCV and the classifier described by the model manifest inside the
+   * worker, reporting the model download's progress. The classifier runs on
+   * `backend`, or on the fastest one a benchmark finds if null.
+   */
+  load(
+    manifestUrl: string = '/models/manifest.json',
+    backend: Backend | null = null,
+    onProgress?: (progress: LoadProgress) => void
+  ): Promise<LoadedSolver> {
+    if (!this.loadPromise) {
+      this.loadPromise = new Promise((resolve, reject) => {
+        const onMessage = (event: MessageEvent<SolverResponse>) => {
+          const response = event.data
+          if (response.type === 'progress') {
+            onProgress?.(response.progress)
+          } else if (response.type === 'loaded') {
+            this.worker.removeEventListener('message', onMessage)
+            this.rejectLoad = null
+            resolve({
+              openCVLoaded: response.openCVLoaded,
+              modelVersion: response.modelVersion,
+              backend: response.backend,
+            })
+          } else if (response.type === 'load-error') {
+            this.worker.removeEventListener('message', onMessage)
+            this.rejectLoad = null
+            reject(new Error(response.message))
+          }
+        }
+        if (this.failure) {
+          reject(this.failure)
+          return
+        }
+        this.rejectLoad = (error) => {
+          this.worker.removeEventListener('message', onMessage)
+          reject(error)
+        }
+        this.worker.addEventListener('message', onMessage)
+        this.post({ type: 'load', manifestUrl, backend })
+      })
+    }
+    return this.loadPromise
+  }
+
+  /**
+   * Run the pipeline on a frame. The frame's pixel buffer is transferred to the
+   * worker, so it must not be used by the caller afterwards.
+   */
+  process(
+    frame: ImageData | ImageBitmap,
+    track: boolean,
+    detector: DetectorSettings
+  ): Promise<ProcessedFrame> {
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure)
+        return
+      }
+      this.pending.set(id, { resolve, reject })
+      const transfer = frame instanceof ImageData ? [frame.data.buffer] : [frame]
+      this.post({ type: 'process', id, frame, track, detector }, transfer)
+    })
+  }
+
+  terminate(): void {
+    this.worker.terminate()
+    this.fail(new Error('Solver worker terminated'))
+  }
+
+  /**
+   * Reject the load in flight and every pending frame; later calls reject at once.
+   */
+  private fail(error: Error): void {
+    this.failure ??= error
+    this.rejectLoad?.(error)
+    this.rejectLoad = null
+    for (const pending of this.pending.values()) {
+      pending.reject(error)
+    }
+    this.pending.clear()
+  }
+
+  private post(request: SolverRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(request, transfer)
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Web Worker running the detect → classify → solve pipeline off the main thread.
+ *
+ * Loads its own copy of OpenCV.js and the classifier, and keeps the live-video
+ * card tracker, so the UI thread only ships frames in and results out.
+ */
+
+import {
+  benchmarkBackends,
+  configureWasmThreads,
+  isCrossOriginIsolated,
+  pickBackend,
+  type Backend,
+  type BackendBenchmark,
+  type BackendSelection,
+} from './backends'
+import { CardClassifier } from './inference'
+import { fetchModel } from './model-manifest'
+import { isOpenCVLoaded, tuneDetectorConfig, waitForOpenCV, type DetectorConfig } from './opencv-detector'
+import { detectAndClassify, toCard } from './pipeline'
+import { CardTracker } from './tracker'
+import { findAllSets } from '../game/solver'
+import type { Card, ProcessedResult } from '../types'
+import type { DetectorSettings, SolverRequest, SolverResponse } from './worker-protocol'
+
+const classifier = new CardClassifier()
+const tracker = new CardTracker()
+
+function post(message: SolverResponse) {
+  self.postMessage(message)
+}
+
+/**
+ * Load OpenCV.js into the worker scope. Module workers cannot importScripts, so
+ * the UMD script is evaluated as a classic script (it then assigns `self.cv`).
+ */
+async function loadOpenCV(): Promise<boolean> {
+  const g = self as unknown as Record<string, unknown>
+  g.Module = {
+    onRuntimeInitialized() {
+      self.dispatchEvent(new Event('opencv-loaded'))
+    },
+  }
+
+  const response = await fetch('/opencv.js')
+  if (!response.ok) return false
+  new Function(await response.text()).call(self)
+
+  return waitForOpenCV()
+}
+
+/**
+ * Download the classifier named in the manifest (reporting progress), verify
+ * it and load it on `backend`, or on the fastest one if null. A backend that
+ * no longer loads (new browser, new drivers) is replaced by benchmarking.
+ * Resolves with the model version and the backend used.
+ */
+async function loadClassifier(
+  manifestUrl: string,
+  backend: Backend | null
+): Promise<{ modelVersion: string; selection: BackendSelection }> {
+  const { info, bytes } = await fetchModel(manifestUrl, 'classifier', (progress) => {
+    post({ type: 'progress', progress })
+  })
+  const threads = configureWasmThreads()
+
+  let benchmarks: BackendBenchmark[] = []
+  let fallbackFrom: Backend | undefined
+  if (backend) {
+    try {
+      await classifier.load(bytes, [backend], info)
+    } catch (error) {
+      console.warn(`Could not load the classifier on ${backend}, benchmarking instead:`, error)
+      fallbackFrom = backend
+      backend = null
+    }
+  }
+  if (!backend) {
+    benchmarks = await benchmarkBackends(bytes, info)
+    backend = pickBackend(benchmarks)
+    await classifier.load(bytes, [backend], info)
+  }
+
+  return {
+    modelVersion: info.version,
+    selection: { backend, threads, isolated: isCrossOriginIsolated(), benchmarks, fallbackFrom },
+  }
+}
+
+/**
+ * Get pixel data for a frame, drawing ImageBitmaps through an OffscreenCanvas.
+ */
+function toImageData(frame: ImageData | ImageBitmap): ImageData {
+  if (frame instanceof ImageData) return frame
+
+  const canvas = new OffscreenCanvas(frame.width, frame.height)
+  const ctx = canvas.getContext('2d')!
+  ctx.drawImage(frame, 0, 0)
+  frame.close()
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+async function processFrame(
+  frame: ImageData | ImageBitmap,
+  track: boolean,
+  settings: DetectorSettings
+): Promise<{ result: ProcessedResult; detector: DetectorConfig }> {
+  const startTime = performance.now()
+  const imageData = toImageData(frame)
+
+  const detector = settings.autoTune ? tuneDetectorConfig(imageData, settings.config) : settings.config
+  const classified = await detectAndClassify(imageData, classifier, detector)
+  let cards: Card[]
+  if (track) {
+    cards = tracker.update(classified)
+  } else {
+    tracker.reset()
+    cards = classified.map((item, idx) => toCard(idx, item))
+  }
+
+  const sets = findAllSets(cards)
+
+  return {
+    result: {
+      cards,
+      sets,
+      timestamp: performance.now(),
+      inferenceTime: performance.now() - startTime,
+    },
+    detector,
+  }
+}
+
+self.onmessage = async (event: MessageEvent<SolverRequest>) => {
+  const request = event.data
+
+  switch (request.type) {
+    case 'load':
+      try {
+        const [openCVLoaded, { modelVersion, selection }] = await Promise.all([
+          loadOpenCV().catch(() => false),
+          loadClassifier(request.manifestUrl, request.backend),
+        ])
+        post({
+          type: 'loaded',
+          openCVLoaded: openCVLoaded && isOpenCVLoaded(),
+          modelVersion,
+          backend: selection,
+        })
+      } catch (error) {
+        post({ type: 'load-error', message: String(error) })
+      }
+      break
+
+    case 'process':
+      try {
+        const { result, detector } = await processFrame(request.frame, request.track, request.detector)
+        post({ type: 'result', id: request.id, result, detector })
+      } catch (error) {
+        post({ type: 'error', id: request.id, message: String(error) })
+      }
+      break
+  }
+}
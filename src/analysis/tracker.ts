@@ -0,0 +1,140 @@
+/**
+ * Frame-to-frame card tracking for live detection.
+ *
+ * Matches each frame's detections to existing tracks by bounding box overlap so
+ * every physical card keeps a stable id, and averages the classifier
+ * probabilities over the last few frames before choosing attributes.
+ */
+
+import { toCard, type ClassifiedDetection } from './pipeline'
+import type { AttributeProbabilities as Probabilities, Card, ClassificationResult } from '../types'
+
+interface Track {
+  id: number
+  bbox: [number, number, number, number] // last matched position
+  history: Probabilities[] // most recent last
+  missed: number // consecutive frames without a match
+}
+
+interface TrackerOptions {
+  minIoU?: number // minimum overlap to continue a track
+  windowSize?: number // frames of probabilities to average
+  maxMissed?: number // frames a track survives without a match
+}
+
+/**
+ * Intersection-over-union of two [x1, y1, x2, y2] boxes.
+ */
+function iou(a: [number, number, number, number], b: [number, number, number, number]): number {
+  const overlapX = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]))
+  const overlapY = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]))
+  const overlapArea = overlapX * overlapY
+  const areaA = (a[2] - a[0]) * (a[3] - a[1])
+  const areaB = (b[2] - b[0]) * (b[3] - b[1])
+  const union = areaA + areaB - overlapArea
+  return union > 0 ? overlapArea / union : 0
+}
+
+function argmax(arr: number[]): number {
+  let maxIdx = 0
+  for (let i = 1; i < arr.length; i++) {
+    if (arr[i] > arr[maxIdx]) maxIdx = i
+  }
+  return maxIdx
+}
+
+function averageProbabilities(history: Probabilities[]): Probabilities {
+  const average = (key: keyof Probabilities) => {
+    const sum = history[0][key].map(() => 0)
+    for (const probs of history) {
+      probs[key].forEach((p, i) => { sum[i] += p })
+    }
+    return sum.map((s) => s / history.length)
+  }
+
+  return {
+    shape: average('shape'),
+    color: average('color'),
+    number: average('number'),
+    shading: average('shading'),
+  }
+}
+
+export class CardTracker {
+  private tracks = new Map<number, Track>()
+  private nextId = 0
+  private minIoU: number
+  private windowSize: number
+  private maxMissed: number
+
+  constructor({ minIoU = 0.3, windowSize = 5, maxMissed = 5 }: TrackerOptions = {}) {
+    this.minIoU = minIoU
+    this.windowSize = windowSize
+    this.maxMissed = maxMissed
+  }
+
+  /**
+   * Feed one frame of detections and get back its cards with stable ids and
+   * smoothed attributes, sorted by id.
+   */
+  update(frame: ClassifiedDetection[]): Card[] {
+    // Greedily match the highest-overlap (track, detection) pairs first
+    const candidates: { trackId: number; detIdx: number; score: number }[] = []
+    for (const [trackId, track] of this.tracks) {
+      frame.forEach((item, detIdx) => {
+        const score = iou(track.bbox, item.detection.bbox)
+        if (score >= this.minIoU) candidates.push({ trackId, detIdx, score })
+      })
+    }
+    candidates.sort((a, b) => b.score - a.score)
+
+    const assignment = new Map<number, number>() // detIdx -> trackId
+    const matchedTracks = new Set<number>()
+    for (const { trackId, detIdx } of candidates) {
+      if (assignment.has(detIdx) || matchedTracks.has(trackId)) continue
+      assignment.set(detIdx, trackId)
+      matchedTracks.add(trackId)
+    }
+
+    // Age out tracks that were not seen this frame
+    for (const [trackId, track] of this.tracks) {
+      if (matchedTracks.has(trackId)) continue
+      track.missed++
+      if (track.missed > this.maxMissed) this.tracks.delete(trackId)
+    }
+
+    const cards = frame.map((item, detIdx) => {
+      let trackId = assignment.get(detIdx)
+      if (trackId === undefined) {
+        trackId = this.nextId++
+        this.tracks.set(trackId, { id: trackId, bbox: item.detection.bbox, history: [], missed: 0 })
+      }
+
+      const track = this.tracks.get(trackId)!
+      track.bbox = item.detection.bbox
+      track.missed = 0
+      track.history.push(item.classification.probabilities)
+      if (track.history.length > this.windowSize) track.history.shift()
+
+      const probabilities = averageProbabilities(track.history)
+      const smoothed: ClassificationResult = {
+        shape: argmax(probabilities.shape),
+        color: argmax(probabilities.color),
+        number: argmax(probabilities.number),
+        shading: argmax(probabilities.shading),
+        probabilities,
+      }
+      return toCard(trackId, { detection: item.detection, classification: smoothed })
+    })
+
+    return cards.sort((a, b) => a.id - b.id)
+  }
+
+  /**
+   * Forget all tracks (e.g. when live detection stops).
+   */
+  reset(): void {
+    this.tracks.clear()
+    this.nextId = 0
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Message protocol between the main thread and the solver worker.
+ */
+
+import type { Backend, BackendSelection } from './backends'
+import type { LoadProgress } from './model-manifest'
+import type { DetectorConfig } from './opencv-detector'
+import type { ProcessedResult } from '../types'
+
+// Card detection settings: the config as is, or auto-tuned from each frame starting from it
+export interface DetectorSettings {
+  config: DetectorConfig
+  autoTune: boolean
+}
+
+// Main thread -> worker
+export type SolverRequest =
+  | { type: 'load'; manifestUrl: string; backend: Backend | null } // null benchmarks the backends
+  | { type: 'process'; id: number; frame: ImageData | ImageBitmap; track: boolean; detector: DetectorSettings }
+
+// Worker -> main thread
+export type SolverResponse =
+  | { type: 'progress'; progress: LoadProgress } // model download
+  | { type: 'loaded'; openCVLoaded: boolean; modelVersion: string; backend: BackendSelection }
+  | { type: 'load-error'; message: string }
+  | { type: 'result'; id: number; result: ProcessedResult; detector: DetectorConfig } // the config used
+  | { type: 'error'; id: number; message: string }
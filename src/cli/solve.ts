@@ -0,0 +1,223 @@
+/**
+ * Headless SET Solver.
+ *
+ * Runs the same detect → classify → solve pipeline as the web app on image
+ * files, using node-canvas for decoding, OpenCV.js (wasm) for detection and
+ * onnxruntime-node for classification. Prints one JSON line per image, and
+ * with --annotate also writes each photo with its sets drawn in as a PNG.
+ * The classifier and its preprocessing come from the model manifest; --model
+ * swaps in another file (skipping the manifest's hash check). Detector
+ * thresholds are auto-tuned per image unless --no-autotune is given.
+ *
+ * Usage: npm run solve -- [--manifest public/models/manifest.json] [--model path/to/classifier.onnx] [--threshold 0.5] [--annotate out/] [--no-autotune] <image|dir>...
+ */
+
+import { mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { createCanvas, loadImage, ImageData as NodeImageData, type Image } from 'canvas'
+import { renderAnnotatedImage } from '../analysis/annotate'
+import { CardClassifier } from '../analysis/inference'
+import { validateModelInfo, verifySha256, type ModelInfo, type ModelManifest } from '../analysis/model-manifest'
+import { DEFAULT_DETECTOR_CONFIG, tuneDetectorConfig } from '../analysis/opencv-detector'
+import { detectAndClassifyCards } from '../analysis/pipeline'
+import { findAllSets, rankSets } from '../game/solver'
+import type { ProcessedResult } from '../types'
+
+const require = createRequire(import.meta.url)
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.bmp'])
+const DEFAULT_MANIFEST_PATH = 'public/models/manifest.json'
+const DEFAULT_THRESHOLD = 0.5
+const USAGE =
+  'Usage: npm run solve -- [--manifest public/models/manifest.json] [--model path/to/classifier.onnx] [--threshold 0.5] [--annotate out/] [--no-autotune] <image|dir>...'
+
+/**
+ * Load OpenCV.js and expose it as the global `cv` the detector expects.
+ * Newer builds export a thenable Emscripten module, older ones a module with
+ * onRuntimeInitialized.
+ */
+async function loadOpenCV(): Promise<void> {
+  const cvModule = require('@techstark/opencv-js')
+  let cv = cvModule
+  if (typeof cvModule.then === 'function') {
+    // The module resolves to itself, so `await` would loop forever unless
+    // `then` is removed before resolving
+    cv = await new Promise((resolve) => {
+      cvModule.then((mod: { then?: unknown }) => {
+        delete mod.then
+        resolve(mod)
+      })
+    })
+  } else if (typeof cvModule.Mat === 'undefined') {
+    await new Promise<void>((resolve) => {
+      cvModule.onRuntimeInitialized = () => resolve()
+    })
+  }
+  const g = globalThis as Record<string, unknown>
+  g.cv = cv
+  // warpCardToImageData constructs ImageData, which Node lacks
+  g.ImageData = NodeImageData
+}
+
+/**
+ * Expand the given paths into a sorted list of image files.
+ * Directories are scanned (non-recursively) for known image extensions.
+ * Paths that cannot be read are passed to `onError` and skipped.
+ */
+function collectImagePaths(inputs: string[], onError: (input: string, error: unknown) => void): string[] {
+  const files: string[] = []
+  for (const input of inputs) {
+    try {
+      if (statSync(input).isDirectory()) {
+        const entries = readdirSync(input)
+          .filter((name) => IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase()))
+          .sort()
+        files.push(...entries.map((name) => path.join(input, name)))
+      } else {
+        files.push(input)
+      }
+    } catch (error) {
+      onError(input, error)
+    }
+  }
+  return files
+}
+
+function readImageData(image: Image): ImageData {
+  const canvas = createCanvas(image.width, image.height)
+  const ctx = canvas.getContext('2d')
+  ctx.drawImage(image, 0, 0)
+  return ctx.getImageData(0, 0, image.width, image.height) as unknown as ImageData
+}
+
+/**
+ * Write the photo with its cards and sets drawn in to `dir` as a PNG.
+ */
+function writeAnnotatedImage(file: string, image: Image, result: ProcessedResult, dir: string): void {
+  const canvas = renderAnnotatedImage(image, image.width, image.height, result, createCanvas)
+  const out = path.join(dir, `${path.parse(file).name}.annotated.png`)
+  writeFileSync(out, canvas.toBuffer('image/png'))
+}
+
+async function solveImage(
+  image: Image,
+  classifier: CardClassifier,
+  threshold: number,
+  autoTune: boolean
+): Promise<ProcessedResult> {
+  const imageData = readImageData(image)
+  const startTime = performance.now()
+
+  const detector = autoTune ? tuneDetectorConfig(imageData) : DEFAULT_DETECTOR_CONFIG
+  const cards = await detectAndClassifyCards(imageData, classifier, detector)
+  const sets = rankSets(findAllSets(cards), threshold)
+
+  return {
+    cards,
+    sets,
+    timestamp: performance.now(),
+    inferenceTime: performance.now() - startTime,
+  }
+}
+
+/**
+ * Read the classifier's manifest entry and model file. The file's hash is
+ * checked unless `modelPath` overrides the manifest's file.
+ */
+async function readModel(
+  manifestPath: string,
+  modelPath: string | null
+): Promise<{ info: ModelInfo; bytes: Uint8Array }> {
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf8')) as ModelManifest
+  const info = validateModelInfo('classifier', manifest.classifier)
+  const bytes = new Uint8Array(readFileSync(modelPath ?? path.join(path.dirname(manifestPath), info.file)))
+  if (!modelPath && info.sha256) {
+    await verifySha256(bytes, info.sha256, `The classifier model ${info.version}`)
+  } else if (!modelPath) {
+    console.warn(`No SHA-256 for the classifier model ${info.version} in ${manifestPath}; skipping the integrity check`)
+  }
+  return { info, bytes }
+}
+
+interface CliOptions {
+  manifestPath: string
+  modelPath: string | null
+  threshold: number
+  annotateDir: string | null
+  autoTune: boolean
+  inputs: string[]
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  let manifestPath = DEFAULT_MANIFEST_PATH
+  let modelPath: string | null = null
+  let threshold = DEFAULT_THRESHOLD
+  let annotateDir: string | null = null
+  let autoTune = true
+  const inputs: string[] = []
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--manifest') {
+      manifestPath = argv[++i]
+    } else if (argv[i] === '--model') {
+      modelPath = argv[++i]
+    } else if (argv[i] === '--threshold') {
+      threshold = Number(argv[++i])
+    } else if (argv[i] === '--annotate') {
+      annotateDir = argv[++i]
+    } else if (argv[i] === '--no-autotune') {
+      autoTune = false
+    } else {
+      inputs.push(argv[i])
+    }
+  }
+  return { manifestPath, modelPath, threshold, annotateDir, autoTune, inputs }
+}
+
+async function main(): Promise<void> {
+  const { manifestPath, modelPath, threshold, annotateDir, autoTune, inputs } = parseArgs(process.argv.slice(2))
+  if (
+    inputs.length === 0 ||
+    !manifestPath ||
+    (modelPath !== null && !modelPath) ||
+    Number.isNaN(threshold) ||
+    (annotateDir !== null && !annotateDir)
+  ) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  // Keep stdout for results only; library code logs progress via console.log
+  console.log = console.error
+
+  await loadOpenCV()
+  const classifier = new CardClassifier()
+  const { info, bytes } = await readModel(manifestPath, modelPath)
+  await classifier.load(bytes, ['cpu'], info)
+
+  if (annotateDir) mkdirSync(annotateDir, { recursive: true })
+
+  let failed = false
+  const files = collectImagePaths(inputs, (input, error) => {
+    console.error(`Failed to read ${input}:`, error)
+    failed = true
+  })
+  for (const file of files) {
+    try {
+      const image = await loadImage(file)
+      const result = await solveImage(image, classifier, threshold, autoTune)
+      if (annotateDir) writeAnnotatedImage(file, image, result, annotateDir)
+      process.stdout.write(JSON.stringify({ file, result }) + '\n')
+    } catch (error) {
+      console.error(`Failed to process ${file}:`, error)
+      failed = true
+    }
+  }
+
+  process.exit(failed ? 1 : 0)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
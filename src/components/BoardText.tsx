@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { formatBoard, parseBoard } from '../game/solver'
+import type { CardProperties } from '../types'
+
+interface BoardTextProps {
+  cards: CardProperties[] // the board currently shown
+  onLoad: (cards: CardProperties[]) => void
+  onClose: () => void
+}
+
+/**
+ * Modal for copying the board as compact text (e.g. "1RFD 2RSO 3GES") and for
+ * pasting a board in the same notation.
+ */
+export function BoardText({ cards, onLoad, onClose }: BoardTextProps) {
+  const [text, setText] = useState(() => formatBoard(cards))
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = (value: string) => {
+    try {
+      const board = parseBoard(value)
+      if (board.length === 0) throw new Error('No cards to load')
+      onLoad(board)
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setMessage('Copied')
+    } catch {
+      setError('Could not copy; select the text and copy it by hand')
+    }
+  }
+
+  const paste = async () => {
+    try {
+      const value = await navigator.clipboard.readText()
+      setText(value)
+      setError(null)
+      load(value)
+    } catch {
+      setError('Could not read the clipboard; paste into the box and tap Load')
+    }
+  }
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white rounded-2xl border-4 border-black shadow-xl p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-black">Board as text</h2>
+        <p className="text-xs text-gray-600">
+          Number, color (R/G/P), shading (F filled, S striped, E empty) and shape (D/O/S), e.g. 2RSO = 2 red
+          striped ovals. Cards may also be given by index 0-80.
+        </p>
+
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value)
+            setError(null)
+            setMessage(null)
+          }}
+          rows={4}
+          spellCheck={false}
+          className="w-full rounded-lg border-2 border-black px-3 py-2 font-mono text-sm uppercase"
+        />
+        {error && <p className="text-sm font-bold text-set-red">{error}</p>}
+        {message && !error && <p className="text-sm font-bold text-green-700">{message}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={copy}
+            disabled={!text.trim()}
+            className="flex-1 py-3 rounded-full bg-white border-2 border-black font-bold hover:bg-gray-100 disabled:opacity-40 transition-all"
+          >
+            Copy
+          </button>
+          <button
+            onClick={paste}
+            className="flex-1 py-3 rounded-full bg-white border-2 border-black font-bold hover:bg-gray-100 transition-all"
+          >
+            Paste
+          </button>
+          <button
+            onClick={() => load(text)}
+            className="flex-1 py-3 rounded-full bg-set-yellow border-2 border-black font-bold hover:bg-yellow-300 transition-all"
+          >
+            Load
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { PACKING_COLORS } from './Canvas'
+import { CardFace } from './CardFace'
+import type { Card } from '../types'
+
+interface BoardViewProps {
+  cards: Card[]
+  highlightedIndices?: number[]
+  selectedIndices?: number[]
+  packedSets?: [number, number, number][]
+  onCardTap?: (index: number) => void
+}
+
+/**
+ * A board of virtual cards laid out in a grid, highlighting the current set,
+ * any cards the player has selected and the sets of a packing.
+ */
+export function BoardView({ cards, highlightedIndices = [], selectedIndices = [], packedSets, onCardTap }: BoardViewProps) {
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 w-full max-w-md sm:max-w-xl mx-auto">
+      {cards.map((card, idx) => {
+        const isHighlighted = highlightedIndices.includes(idx)
+        const isSelected = selectedIndices.includes(idx)
+        const packIndex = packedSets?.findIndex((set) => set.includes(idx)) ?? -1
+        return (
+          <button
+            key={`${card.id}-${card.shape}-${card.color}-${card.number}-${card.shading}`}
+            onClick={() => onCardTap?.(idx)}
+            disabled={!onCardTap}
+            style={packIndex >= 0 ? { boxShadow: `0 0 0 6px ${PACKING_COLORS[packIndex % PACKING_COLORS.length]}` } : undefined}
+            className={`rounded-xl transition-all ${
+              isHighlighted ? 'ring-8 ring-set-yellow scale-105 shadow-xl' : 'shadow-lg'
+            } ${isSelected ? 'ring-4 ring-black -translate-y-1' : ''} ${onCardTap ? 'active:scale-95' : ''}`}
+          >
+            <CardFace card={card} className="w-full h-auto block" />
+          </button>
+        )
+      })}
+    </div>
+  )
+}
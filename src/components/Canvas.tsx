@@ -1,16 +1,96 @@
 import { forwardRef, useEffect, useRef } from 'react'
-import type { ProcessedResult } from '../types'
+import { describeCard } from '../game/solver'
+import type { Card, ProcessedResult, UltraSetResult } from '../types'
 
 interface CanvasProps {
   results: ProcessedResult | null
   highlightedSetIndex: number | null
+  revealedCards?: number // how many cards of the highlighted set to outline (hints)
   width?: number
   height?: number
   coverTop?: boolean
+  onCardTap?: (index: number) => void // makes detected cards tappable
+  selectedIndices?: number[] // cards picked by a player, outlined in white
+  packedSets?: [number, number, number][] // disjoint sets, outlined in PACKING_COLORS
+  ultraSet?: UltraSetResult // Ultra SET pairs to outline, with the missing card described
+}
+
+// Distinct outline colours for the sets of a maximum packing
+export const PACKING_COLORS = ['#3B82F6', '#16A34A', '#A855F7', '#F97316', '#EC4899', '#14B8A6', '#FACC15']
+
+// Outline colours for the two pairs of an Ultra SET
+const ULTRA_PAIR_COLORS = ['#EC4899', '#14B8A6']
+
+/**
+ * Whether a point (in image coordinates) lies inside a card's outline.
+ */
+function cardContainsPoint(card: Card, x: number, y: number): boolean {
+  const corners = card.corners
+  if (!corners || corners.length !== 4) {
+    const [x1, y1, x2, y2] = card.bbox
+    return x >= x1 && x <= x2 && y >= y1 && y <= y2
+  }
+  // Inside a convex quad: same side of every edge
+  let sign = 0
+  for (let i = 0; i < 4; i++) {
+    const a = corners[i]
+    const b = corners[(i + 1) % 4]
+    const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x)
+    if (cross === 0) continue
+    if (sign === 0) sign = Math.sign(cross)
+    else if (Math.sign(cross) !== sign) return false
+  }
+  return true
+}
+
+/**
+ * Start a path along a card's outline (corners if known, else its box).
+ */
+function traceCard(ctx: CanvasRenderingContext2D, card: Card) {
+  const corners = card.corners
+  ctx.beginPath()
+  if (corners && corners.length === 4) {
+    ctx.moveTo(corners[0].x, corners[0].y)
+    corners.slice(1).forEach((corner) => ctx.lineTo(corner.x, corner.y))
+    ctx.closePath()
+  } else {
+    const [x1, y1, x2, y2] = card.bbox
+    ctx.rect(x1, y1, x2 - x1, y2 - y1)
+  }
+}
+
+/**
+ * Outline both pairs of an Ultra SET in their own colours and describe the
+ * missing card in a label centred between the four cards.
+ */
+function drawUltraSet(ctx: CanvasRenderingContext2D, cards: Card[], ultraSet: UltraSetResult, scale: number) {
+  const picked = ultraSet.indices.map((idx) => cards[idx])
+  if (picked.some((card) => !card)) return
+
+  ctx.setLineDash([])
+  ctx.lineWidth = 24 * scale
+  picked.forEach((card, n) => {
+    ctx.strokeStyle = ULTRA_PAIR_COLORS[n < 2 ? 0 : 1]
+    traceCard(ctx, card)
+    ctx.stroke()
+  })
+
+  const centerX = picked.reduce((sum, card) => sum + (card.bbox[0] + card.bbox[2]) / 2, 0) / picked.length
+  const centerY = picked.reduce((sum, card) => sum + (card.bbox[1] + card.bbox[3]) / 2, 0) / picked.length
+  const text = `Missing: ${describeCard(ultraSet.missing)}`
+  ctx.font = `bold ${48 * scale}px sans-serif`
+  const padding = 16 * scale
+  const textWidth = ctx.measureText(text).width
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.8)'
+  ctx.fillRect(centerX - textWidth / 2 - padding, centerY - 36 * scale - padding, textWidth + padding * 2, 48 * scale + padding * 2)
+  ctx.fillStyle = '#FFFFFF'
+  ctx.textAlign = 'center'
+  ctx.fillText(text, centerX, centerY)
+  ctx.textAlign = 'start'
 }
 
 export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
-  ({ results, highlightedSetIndex, width = 1280, height = 720, coverTop = false }, ref) => {
+  ({ results, highlightedSetIndex, revealedCards = 3, width = 1280, height = 720, coverTop = false, onCardTap, selectedIndices, packedSets, ultraSet }, ref) => {
     const animationRef = useRef<number | null>(null)
     const dashOffsetRef = useRef(0)
     
@@ -18,9 +98,6 @@ export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
       if (!ref || !('current' in ref) || !ref.current) {
         return
       }
-      if (!results) {
-        return
-      }
       
       const canvas = ref.current
       const ctx = canvas.getContext('2d')
@@ -28,6 +105,12 @@ export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
         return
       }
       
+      // Nothing to draw - clear any overlay left from a previous result
+      if (!results) {
+        ctx.clearRect(0, 0, canvas.width, canvas.height)
+        return
+      }
+      
       // Animation variables
       let frameCount = 0
       
@@ -54,8 +137,8 @@ export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
           const corners = card.corners
           const [x1, y1, x2, y2] = card.bbox
           
-          const isHighlighted = highlightedSetIndex !== null && 
-            results.sets[highlightedSetIndex]?.indices.includes(idx)
+          const highlightedSet = highlightedSetIndex !== null ? results.sets[highlightedSetIndex] : undefined
+          const isHighlighted = highlightedSet?.indices.slice(0, revealedCards).includes(idx) ?? false
           
           if (isHighlighted) {
             // Helper to add wobble to a point
@@ -88,8 +171,9 @@ export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
               ctx.strokeRect(x1 + wobbleAmount, y1 + wobbleAmount, x2 - x1, y2 - y1)
             }
             
-            // Second layer: animated yellow dashes (SET theme)
-            ctx.strokeStyle = '#FACC15' // SET yellow
+            // Second layer: animated yellow dashes (SET theme), orange when the
+            // set relies on low-confidence readings
+            ctx.strokeStyle = highlightedSet?.uncertain ? '#FB923C' : '#FACC15' // SET yellow
             ctx.lineWidth = 38 * scale
             ctx.setLineDash([55 * scale, 80 * scale])
             ctx.lineDashOffset = -dashOffsetRef.current
@@ -113,9 +197,16 @@ export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
             ctx.setLineDash([])
             ctx.lineDashOffset = 0
           } else {
-            // Draw visible box for all detected cards
-            ctx.strokeStyle = 'rgba(0, 255, 0, 0.7)'
-            ctx.lineWidth = 2 * scale
+            // Draw visible box for all detected cards (blue if corrected by hand,
+            // white while picked by a player, the set's colour when packed)
+            const isSelected = selectedIndices?.includes(idx) ?? false
+            const packIndex = packedSets?.findIndex((set) => set.includes(idx)) ?? -1
+            ctx.strokeStyle = isSelected
+              ? 'rgba(255, 255, 255, 1)'
+              : packIndex >= 0
+              ? PACKING_COLORS[packIndex % PACKING_COLORS.length]
+              : card.corrected ? 'rgba(59, 130, 246, 0.9)' : 'rgba(0, 255, 0, 0.7)'
+            ctx.lineWidth = (isSelected || packIndex >= 0 ? 16 : card.corrected ? 4 : 2) * scale
             ctx.setLineDash([])
             
             if (corners && corners.length === 4) {
@@ -131,14 +222,16 @@ export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
             }
             
             // Draw card index
-            ctx.fillStyle = 'rgba(0, 255, 0, 0.9)'
+            ctx.fillStyle = card.corrected ? 'rgba(59, 130, 246, 1)' : 'rgba(0, 255, 0, 0.9)'
             ctx.font = `bold ${14 * scale}px sans-serif`
             const labelX = corners ? corners[0].x : x1
             const labelY = corners ? corners[0].y + 18 * scale : y1 + 18 * scale
-            ctx.fillText(`#${idx + 1}`, labelX + 4 * scale, labelY)
+            ctx.fillText(`#${card.id + 1}${card.corrected ? ' ✎' : ''}`, labelX + 4 * scale, labelY)
           }
         })
         
+        if (ultraSet) drawUltraSet(ctx, results.cards, ultraSet, scale)
+        
         // Continue animation if there's a highlighted set
         if (highlightedSetIndex !== null) {
           animationRef.current = requestAnimationFrame(animate)
@@ -155,14 +248,31 @@ export const Canvas = forwardRef<HTMLCanvasElement, CanvasProps>(
         }
       }
       
-    }, [results, highlightedSetIndex, ref])
+    }, [results, highlightedSetIndex, revealedCards, selectedIndices, packedSets, ultraSet, ref])
+    
+    // Map a tap back through object-fit scaling to image coordinates
+    const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!onCardTap || !results) return
+      const rect = e.currentTarget.getBoundingClientRect()
+      const fit = coverTop
+        ? Math.max(rect.width / width, rect.height / height)
+        : Math.min(rect.width / width, rect.height / height)
+      const offsetX = (rect.width - width * fit) / 2
+      const offsetY = coverTop ? 0 : (rect.height - height * fit) / 2
+      const x = (e.clientX - rect.left - offsetX) / fit
+      const y = (e.clientY - rect.top - offsetY) / fit
+      
+      const index = results.cards.findIndex((card) => cardContainsPoint(card, x, y))
+      if (index >= 0) onCardTap(index)
+    }
 
     return (
       <canvas
         ref={ref}
         width={width}
         height={height}
-        className={`absolute inset-0 pointer-events-none ${coverTop ? 'w-full h-full' : 'max-w-full max-h-full m-auto'}`}
+        onClick={handleClick}
+        className={`absolute inset-0 ${onCardTap ? 'cursor-pointer' : 'pointer-events-none'} ${coverTop ? 'w-full h-full' : 'max-w-full max-h-full m-auto'}`}
         style={{ 
           width: '100%', 
           height: '100%', 
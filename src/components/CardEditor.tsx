@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { SHAPES, COLORS, NUMBERS, SHADINGS } from '../game/solver'
+import type { Card, CardProperties } from '../types'
+
+interface CardEditorProps {
+  card: Card
+  onSave: (props: CardProperties) => void
+  onCancel: () => void
+}
+
+interface AttributeRowProps<T> {
+  label: string
+  values: T[]
+  selected: T
+  probabilities?: number[]
+  onSelect: (value: T) => void
+}
+
+function AttributeRow<T extends string | number>({ label, values, selected, probabilities, onSelect }: AttributeRowProps<T>) {
+  return (
+    <div>
+      <div className="text-xs font-black uppercase tracking-wide mb-1">{label}</div>
+      <div className="grid grid-cols-3 gap-2">
+        {values.map((value, i) => (
+          <button
+            key={value}
+            onClick={() => onSelect(value)}
+            className={`rounded-lg border-2 border-black py-2 text-sm font-bold capitalize transition-all active:scale-95 ${
+              value === selected ? 'bg-set-yellow text-black' : 'bg-white text-black hover:bg-yellow-100'
+            }`}
+          >
+            {value}
+            {probabilities && (
+              <span className="block text-xs font-normal text-gray-600">
+                {Math.round((probabilities[i] ?? 0) * 100)}%
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Modal for correcting a misclassified card. Starts from the current prediction
+ * and shows the classifier's probability for every value.
+ */
+export function CardEditor({ card, onSave, onCancel }: CardEditorProps) {
+  const [shape, setShape] = useState(card.shape)
+  const [color, setColor] = useState(card.color)
+  const [number, setNumber] = useState(card.number)
+  const [shading, setShading] = useState(card.shading)
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-sm bg-white rounded-2xl border-4 border-black shadow-xl p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-black">Correct card #{card.id + 1}</h2>
+
+        <AttributeRow label="Shape" values={SHAPES} selected={shape} probabilities={card.probabilities?.shape} onSelect={setShape} />
+        <AttributeRow label="Color" values={COLORS} selected={color} probabilities={card.probabilities?.color} onSelect={setColor} />
+        <AttributeRow label="Number" values={NUMBERS} selected={number} probabilities={card.probabilities?.number} onSelect={setNumber} />
+        <AttributeRow label="Shading" values={SHADINGS} selected={shading} probabilities={card.probabilities?.shading} onSelect={setShading} />
+
+        <div className="flex gap-3 pt-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-full bg-white border-2 border-black font-bold hover:bg-gray-100 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ shape, color, number, shading })}
+            className="flex-1 py-3 rounded-full bg-set-yellow border-2 border-black font-bold hover:bg-yellow-300 transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { useId } from 'react'
+import type { CardProperties, Color, Shape } from '../types'
+
+interface CardFaceProps {
+  card: CardProperties
+  className?: string
+}
+
+const COLOR_HEX: Record<Color, string> = {
+  red: '#E31837',
+  green: '#16A34A',
+  purple: '#7C3AED',
+}
+
+// Symbol outlines in a 60x26 box
+const SHAPE_PATHS: Record<Shape, string> = {
+  diamond: 'M2 13 L30 1 L58 13 L30 25 Z',
+  oval: 'M15 1 H45 A12 12 0 0 1 45 25 H15 A12 12 0 0 1 15 1 Z',
+  squiggle: 'M4 19 C0 8 12 1 24 5 S42 11 50 3 C60 0 61 14 55 20 C48 27 36 21 28 20 S10 30 4 19 Z',
+}
+
+/**
+ * Vector rendering of a SET card face (portrait, 2:3).
+ */
+export function CardFace({ card, className = '' }: CardFaceProps) {
+  const patternId = `stripes-${useId().replace(/:/g, '')}`
+  const color = COLOR_HEX[card.color]
+  const fill =
+    card.shading === 'solid' ? color : card.shading === 'striped' ? `url(#${patternId})` : 'none'
+
+  // Stack the symbols vertically around the card's centre
+  const gap = 34
+  const top = 75 - 13 - ((card.number - 1) * gap) / 2
+
+  return (
+    <svg
+      viewBox="0 0 100 150"
+      className={className}
+      aria-label={`${card.number} ${card.color} ${card.shading} ${card.shape}${card.number > 1 ? 's' : ''}`}
+    >
+      <defs>
+        <pattern id={patternId} patternUnits="userSpaceOnUse" width="4" height="4">
+          <rect x="0" y="0" width="1.5" height="4" fill={color} />
+        </pattern>
+      </defs>
+      <rect x="1" y="1" width="98" height="148" rx="8" fill="white" stroke="#1a1a1a" strokeWidth="2" />
+      {Array.from({ length: card.number }, (_, i) => (
+        <path
+          key={i}
+          d={SHAPE_PATHS[card.shape]}
+          transform={`translate(20, ${top + i * gap})`}
+          fill={fill}
+          stroke={color}
+          strokeWidth="2.5"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,49 @@
+import { fullDeck, isSameCard } from '../game/board'
+import { CardFace } from './CardFace'
+import type { CardProperties } from '../types'
+
+interface CardPickerProps {
+  selected: CardProperties[]
+  onToggle: (card: CardProperties) => void
+  onClose: () => void
+}
+
+const DECK = fullDeck()
+
+/**
+ * Modal listing all 81 cards. Tapping a card adds it to or removes it from the board.
+ */
+export function CardPicker({ selected, onToggle, onClose }: CardPickerProps) {
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-black/80 p-3">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-white font-bold">{selected.length} cards on board</span>
+        <button
+          onClick={onClose}
+          className="px-5 py-2 rounded-full bg-set-yellow text-black font-bold border-2 border-black hover:bg-yellow-300 transition-all"
+        >
+          Done
+        </button>
+      </div>
+      {/* One row per shape + color, one column per number + shading */}
+      <div className="flex-1 overflow-y-auto hide-scrollbar">
+        <div className="grid grid-cols-9 gap-1 max-w-2xl mx-auto">
+          {DECK.map((card) => {
+            const isSelected = selected.some((c) => isSameCard(c, card))
+            return (
+              <button
+                key={`${card.shape}-${card.color}-${card.number}-${card.shading}`}
+                onClick={() => onToggle(card)}
+                className={`rounded transition-all ${
+                  isSelected ? 'ring-4 ring-set-yellow' : 'opacity-70 hover:opacity-100'
+                }`}
+              >
+                <CardFace card={card} className="w-full h-auto block" />
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
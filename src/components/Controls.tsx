@@ -38,9 +38,9 @@ export function Controls({ isModelLoaded, isRunning, onToggleRunning }: Controls
           <p><strong>Instructions:</strong></p>
           <ol className="list-decimal list-inside space-y-1">
             <li>Point camera at Set cards on a table</li>
-            <li>Click "Start Detection"</li>
-            <li>Valid sets will be highlighted</li>
-            <li>Click a set in the list to highlight it</li>
+            <li>Tap "Start Detection"</li>
+            <li>Valid sets will be highlighted as they appear</li>
+            <li>Tap the set button to cycle through sets</li>
           </ol>
         </div>
       </div>
@@ -0,0 +1,174 @@
+import { useState } from 'react'
+import {
+  DEFAULT_DETECTOR_CONFIG,
+  clampDetectorConfig,
+  type DetectorConfig,
+  type ThresholdPreset,
+} from '../analysis/opencv-detector'
+import type { DetectorSettings } from '../analysis/worker-protocol'
+
+interface DetectorPanelProps {
+  settings: DetectorSettings
+  lastDetector: DetectorConfig | null // config used on the last frame
+  onChange: (settings: DetectorSettings) => void
+}
+
+interface NumberInputProps {
+  value: number
+  step: number
+  clampValue: (value: number) => number // nearest allowed value
+  onChange: (value: number) => void
+  className: string
+}
+
+/**
+ * Number input that applies allowed values as they are typed. Values out of
+ * range are marked and left as typed, so that e.g. 1500 can be typed through
+ * 1 and 15, and clamped when the input loses focus.
+ */
+function NumberInput({ value, step, clampValue, onChange, className }: NumberInputProps) {
+  const [draft, setDraft] = useState<string | null>(null) // text while editing
+  const parse = (text: string) => (text.trim() !== '' && Number.isFinite(Number(text)) ? Number(text) : null)
+  const allowed = (next: number | null) => next !== null && Math.abs(clampValue(next) - next) < 1e-9
+  const valid = draft === null || allowed(parse(draft))
+
+  return (
+    <input
+      type="number"
+      value={draft ?? Number(value.toFixed(4))}
+      step={step}
+      onChange={(event) => {
+        setDraft(event.target.value)
+        const next = parse(event.target.value)
+        if (next !== null && allowed(next)) onChange(next)
+      }}
+      onBlur={() => {
+        const next = draft === null ? null : parse(draft)
+        if (next !== null && !allowed(next)) onChange(clampValue(next))
+        setDraft(null)
+      }}
+      className={`${className} border-2 text-right ${valid ? 'border-black' : 'border-set-red text-set-red'}`}
+    />
+  )
+}
+
+const PRESET_FIELDS: { key: keyof ThresholdPreset; label: string }[] = [
+  { key: 'sThresh', label: 'S max' },
+  { key: 'vThresh', label: 'V min' },
+  { key: 'cannyLow', label: 'Canny low' },
+  { key: 'cannyHigh', label: 'Canny high' },
+  { key: 'morphSize', label: 'Kernel' },
+]
+
+type GateKey = Exclude<keyof DetectorConfig, 'presets'>
+
+// Gates shown as percentages are stored as fractions
+const GATE_FIELDS: { key: GateKey; label: string; step: number; percent?: boolean }[] = [
+  { key: 'minAreaRatio', label: 'Min card area %', step: 0.05, percent: true },
+  { key: 'maxAreaRatio', label: 'Max card area %', step: 1, percent: true },
+  { key: 'minFillRatio', label: 'Min fill ratio', step: 0.05 },
+  { key: 'minAspect', label: 'Min aspect', step: 0.05 },
+  { key: 'maxAspect', label: 'Max aspect', step: 0.05 },
+  { key: 'minSaturationStd', label: 'Min symbol contrast', step: 1 },
+  { key: 'minVisibleRatio', label: 'Min visible ratio', step: 0.05 },
+  { key: 'maxWidth', label: 'Working width px', step: 100 },
+]
+
+/**
+ * Card detection thresholds for power users: auto-tuned from each frame by
+ * default (showing the values it picked), or fixed and edited by hand. Edits
+ * are kept in range by clampDetectorConfig.
+ */
+export function DetectorPanel({ settings, lastDetector, onChange }: DetectorPanelProps) {
+  const { autoTune } = settings
+  const shown = autoTune ? lastDetector ?? settings.config : settings.config
+
+  const withPreset = (index: number, key: keyof ThresholdPreset, value: number) =>
+    clampDetectorConfig({
+      ...shown,
+      presets: shown.presets.map((preset, i) => (i === index ? { ...preset, [key]: value } : preset)),
+    })
+  const withGate = (key: GateKey, value: number) => clampDetectorConfig({ ...shown, [key]: value })
+  const setConfig = (config: DetectorConfig) => onChange({ autoTune: false, config })
+  // Turning auto-tune off keeps the thresholds on screen, i.e. the last frame's
+  const toggleAutoTune = () => onChange({ autoTune: !autoTune, config: autoTune ? shown : settings.config })
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-black shadow-lg p-3 text-sm font-bold space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-black">Card detection</h3>
+        <button
+          onClick={toggleAutoTune}
+          className={`text-xs font-black px-3 py-2 rounded-full border-2 border-black transition-all ${
+            autoTune ? 'bg-set-yellow text-black' : 'bg-white text-black hover:bg-set-yellow'
+          }`}
+        >
+          AUTO-TUNE {autoTune ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      <p className="text-xs font-normal text-gray-600">
+        {autoTune
+          ? lastDetector
+            ? 'Thresholds are derived from each frame. These are the last frame’s; edit them to fix them.'
+            : 'Thresholds are derived from each frame. Take a photo to see the values picked.'
+          : 'Fixed thresholds. Each pass finds white card areas and edges; later passes catch what earlier ones missed.'}
+      </p>
+
+      <div className="overflow-x-auto hide-scrollbar">
+        <table className="text-xs w-full">
+          <thead>
+            <tr>
+              <th className="text-left pr-2">Pass</th>
+              {PRESET_FIELDS.map((field) => (
+                <th key={field.key} className="px-1 font-bold">{field.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.presets.map((preset, index) => (
+              <tr key={index}>
+                <td className="pr-2">{index + 1}</td>
+                {PRESET_FIELDS.map((field) => (
+                  <td key={field.key} className="px-1 py-0.5">
+                    <NumberInput
+                      value={preset[field.key]}
+                      step={field.key === 'morphSize' ? 2 : 5}
+                      clampValue={(value) => withPreset(index, field.key, value).presets[index][field.key]}
+                      onChange={(value) => setConfig(withPreset(index, field.key, value))}
+                      className="w-14 px-1 py-0.5 rounded-md"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {GATE_FIELDS.map((field) => {
+          const scale = field.percent ? 100 : 1
+          return (
+            <label key={field.key} className="flex items-center justify-between gap-2">
+              <span>{field.label}</span>
+              <NumberInput
+                value={shown[field.key] * scale}
+                step={field.step}
+                clampValue={(value) => withGate(field.key, value / scale)[field.key] * scale}
+                onChange={(value) => setConfig(withGate(field.key, value / scale))}
+                className="w-20 px-2 py-1 rounded-lg"
+              />
+            </label>
+          )
+        })}
+      </div>
+
+      <button
+        onClick={() => onChange({ autoTune: true, config: DEFAULT_DETECTOR_CONFIG })}
+        className="text-xs font-black px-3 py-2 rounded-full border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+      >
+        RESET
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react'
+import { BoardView } from './BoardView'
+import type { GameState } from '../game/engine'
+import type { Card } from '../types'
+
+interface GameViewProps {
+  game: GameState
+  cards: Card[]
+  selected: number[]
+  highlightedIndices?: number[]
+  packedSets?: [number, number, number][]
+  lastClaim: 'valid' | 'invalid' | null
+  mistakes: number
+  startedAt: number
+  finishedAt: number | null
+  onCardTap: (index: number) => void
+  onRestart: () => void
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * Practice game: find sets on a dealt board until the deck runs out.
+ */
+export function GameView({
+  game,
+  cards,
+  selected,
+  highlightedIndices,
+  packedSets,
+  lastClaim,
+  mistakes,
+  startedAt,
+  finishedAt,
+  onCardTap,
+  onRestart,
+}: GameViewProps) {
+  // Tick the clock while the game is running
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    if (finishedAt) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [finishedAt])
+
+  const elapsed = (finishedAt ?? now) - startedAt
+
+  return (
+    <div className="absolute inset-0 overflow-y-auto hide-scrollbar px-3 pt-20 pb-6">
+      <div className="flex justify-center gap-2 mb-4 text-sm font-bold">
+        <span className="bg-white rounded-full px-3 py-1 border-2 border-black">Deck {game.deck.length}</span>
+        <span className="bg-set-yellow rounded-full px-3 py-1 border-2 border-black">Found {game.score}</span>
+        <span className="bg-white rounded-full px-3 py-1 border-2 border-black">✗ {mistakes}</span>
+        <span className="bg-white rounded-full px-3 py-1 border-2 border-black">{formatDuration(elapsed)}</span>
+      </div>
+
+      {lastClaim && (
+        <p className={`text-center font-black mb-3 ${lastClaim === 'valid' ? 'text-set-yellow' : 'text-white'}`}>
+          {lastClaim === 'valid' ? 'SET!' : 'Not a SET'}
+        </p>
+      )}
+
+      <BoardView
+        cards={cards}
+        highlightedIndices={highlightedIndices}
+        selectedIndices={selected}
+        packedSets={packedSets}
+        onCardTap={onCardTap}
+      />
+
+      {/* Game over */}
+      {game.isOver && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60 p-4">
+          <div className="bg-white rounded-2xl border-4 border-black shadow-xl p-6 text-center space-y-2">
+            <h2 className="text-2xl font-black">Deck cleared!</h2>
+            <p className="text-4xl font-black text-set-red">{game.score} SETs</p>
+            <p className="text-sm font-bold text-gray-600">
+              {formatDuration(elapsed)} · {mistakes} mistake{mistakes === 1 ? '' : 's'} · {game.board.length} cards left
+            </p>
+            <button
+              onClick={onRestart}
+              className="mt-2 px-6 py-3 rounded-full bg-set-yellow border-2 border-black font-bold hover:bg-yellow-300 transition-all"
+            >
+              Play again
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { useEffect } from 'react'
+import { MAX_CAPTURES, MAX_STORAGE_BYTES, type CaptureSummary } from '../storage/history'
+
+interface HistoryViewProps {
+  captures: CaptureSummary[]
+  totalBytes: number
+  onRefresh: () => void
+  onOpen: (capture: CaptureSummary) => void
+  onDelete: (id: number) => void
+  onClose: () => void
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Past captures, newest first, to reopen with their overlays or delete.
+ */
+export function HistoryView({ captures, totalBytes, onRefresh, onOpen, onDelete, onClose }: HistoryViewProps) {
+  useEffect(() => {
+    onRefresh()
+  }, [onRefresh])
+
+  return (
+    <div className="absolute inset-0 z-20 bg-set-red flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b-4 border-set-yellow">
+        <div className="text-white">
+          <h2 className="text-lg font-black">History</h2>
+          <p className="text-xs font-bold opacity-80">
+            {captures.length}/{MAX_CAPTURES} captures · {formatMegabytes(totalBytes)} of{' '}
+            {formatMegabytes(MAX_STORAGE_BYTES)} · oldest are removed first
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-10 h-10 rounded-full bg-white border-2 border-black font-black hover:bg-set-yellow"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto hide-scrollbar p-3">
+        {captures.length === 0 ? (
+          <p className="text-white text-center font-bold mt-16">Captures you take will appear here</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {captures.map((capture) => {
+              const setCount = capture.sets.filter((set) => !set.assumptions).length
+              return (
+                <div key={capture.id} className="bg-white rounded-xl border-2 border-black overflow-hidden shadow-lg">
+                  <button onClick={() => onOpen(capture)} className="block w-full">
+                    <img src={capture.thumbnail} alt="" className="w-full aspect-[4/3] object-cover" />
+                  </button>
+                  <div className="flex items-center justify-between gap-2 p-2 text-xs font-bold">
+                    <div>
+                      <div>{new Date(capture.timestamp).toLocaleString()}</div>
+                      <div className="text-gray-600">
+                        {capture.cards.length} cards · {setCount} sets
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onDelete(capture.id)}
+                      className="px-2 py-1 rounded-full border-2 border-black hover:bg-set-red hover:text-white"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
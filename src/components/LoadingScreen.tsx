@@ -0,0 +1,57 @@
+import type { LoadProgress } from '../analysis/model-manifest'
+
+interface LoadingScreenProps {
+  progress: LoadProgress | null // model download, null until it starts
+  error: string | null
+  onRetry: () => void
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * Full-screen overlay while the models load: a download progress bar, or the
+ * error and a retry button when loading failed.
+ */
+export function LoadingScreen({ progress, error, onRetry }: LoadingScreenProps) {
+  if (error) {
+    return (
+      <div className="absolute inset-0 flex items-center justify-center bg-set-red/90 p-6">
+        <div className="max-w-sm text-center text-white">
+          <p className="text-lg font-black tracking-wide mb-2">Couldn't load the SET Solver</p>
+          <p className="text-sm font-bold text-white/80 mb-4 break-words">{error}</p>
+          <button
+            onClick={onRetry}
+            className="text-xs font-black px-4 py-2 rounded-full shadow-lg border-2 border-black bg-white text-black hover:bg-set-yellow transition-all"
+          >
+            RETRY
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const fraction = progress?.total ? Math.min(1, progress.loaded / progress.total) : null
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-set-red/90">
+      <div className="w-64 text-center text-white">
+        <p className="text-lg font-bold tracking-wide mb-4">Loading SET Solver...</p>
+        <div className="h-3 rounded-full border-2 border-black bg-white overflow-hidden">
+          {fraction !== null ? (
+            <div className="h-full bg-set-yellow transition-all" style={{ width: `${fraction * 100}%` }} />
+          ) : (
+            <div className="h-full w-1/3 bg-set-yellow animate-pulse" />
+          )}
+        </div>
+        {progress && (
+          <p className="text-xs font-bold text-white/80 mt-2">
+            {formatMegabytes(progress.loaded)}
+            {progress.total ? ` of ${formatMegabytes(progress.total)}` : ''}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react'
+
+interface MatchSetupProps {
+  onStart: (names: string[]) => void
+  onCancel: () => void
+}
+
+/**
+ * Modal for naming the players of a hot-seat match.
+ */
+export function MatchSetup({ onStart, onCancel }: MatchSetupProps) {
+  const [names, setNames] = useState(['Player 1', 'Player 2'])
+
+  const updateName = (index: number, name: string) => {
+    setNames(names.map((n, idx) => (idx === index ? name : n)))
+  }
+
+  const playerNames = names.map((name, idx) => name.trim() || `Player ${idx + 1}`)
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-sm bg-white rounded-2xl border-4 border-black shadow-xl p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-black">Players</h2>
+        <p className="text-sm text-gray-600">
+          Tap your name to call SET, then pick three cards before time runs out.
+        </p>
+
+        {names.map((name, idx) => (
+          <div key={idx} className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => updateName(idx, e.target.value)}
+              className="flex-1 rounded-lg border-2 border-black px-3 py-2 font-bold"
+            />
+            <button
+              onClick={() => setNames(names.filter((_, i) => i !== idx))}
+              disabled={names.length <= 2}
+              className="w-10 rounded-lg border-2 border-black font-bold hover:bg-gray-100 disabled:opacity-40"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+
+        <button
+          onClick={() => setNames([...names, `Player ${names.length + 1}`])}
+          className="w-full py-2 rounded-lg border-2 border-dashed border-black font-bold hover:bg-yellow-100"
+        >
+          + Add player
+        </button>
+
+        <div className="flex gap-3 pt-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-full bg-white border-2 border-black font-bold hover:bg-gray-100 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onStart(playerNames)}
+            className="flex-1 py-3 rounded-full bg-set-yellow border-2 border-black font-bold hover:bg-yellow-300 transition-all"
+          >
+            Start
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
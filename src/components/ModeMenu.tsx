@@ -0,0 +1,52 @@
+import { useState } from 'react'
+
+export type AppMode = 'camera' | 'manual' | 'game'
+
+interface ModeMenuProps {
+  mode: AppMode
+  disabled?: boolean
+  onChange: (mode: AppMode) => void
+}
+
+const MODE_LABELS: Record<AppMode, string> = {
+  camera: 'CAMERA',
+  manual: 'BOARD',
+  game: 'PLAY',
+}
+
+/**
+ * Top-bar pill for switching between camera, manual board and game modes.
+ */
+export function ModeMenu({ mode, disabled = false, onChange }: ModeMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="text-xs font-black px-3 py-2 rounded-full shadow-lg border-2 border-black transition-all bg-white text-black hover:bg-set-yellow disabled:opacity-40"
+      >
+        {MODE_LABELS[mode]} ▾
+      </button>
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 bg-white rounded-xl border-2 border-black shadow-xl overflow-hidden z-30">
+          {(Object.keys(MODE_LABELS) as AppMode[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => {
+                setIsOpen(false)
+                onChange(option)
+              }}
+              className={`block w-full text-left text-xs font-black px-4 py-2 ${
+                option === mode ? 'bg-set-yellow' : 'hover:bg-yellow-100'
+              }`}
+            >
+              {MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react'
+import type { MatchState } from '../game/match'
+
+interface ScoreboardProps {
+  match: MatchState
+  lastClaim: 'valid' | 'invalid' | 'timeout' | null
+  onCall: (player: number) => void
+  onEnd: () => void
+}
+
+const OUTCOME_LABELS = {
+  set: 'found a SET (+1)',
+  miss: 'called a wrong SET (−1)',
+  timeout: 'ran out of time (−1)',
+}
+
+/**
+ * Player buttons for calling SET, with scores, the claim countdown and the match log.
+ */
+export function Scoreboard({ match, lastClaim, onCall, onEnd }: ScoreboardProps) {
+  const [showLog, setShowLog] = useState(false)
+
+  // Tick the countdown while someone is claiming
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    if (!match.deadline) return
+    const interval = setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(interval)
+  }, [match.deadline])
+
+  const secondsLeft = match.deadline ? Math.max(0, Math.ceil((match.deadline - now) / 1000)) : null
+  const caller = match.caller !== null ? match.players[match.caller] : null
+
+  return (
+    <div className="bg-white/95 rounded-2xl border-2 border-black shadow-xl p-2 space-y-2">
+      <div className="flex gap-2 overflow-x-auto hide-scrollbar">
+        {match.players.map((player, idx) => (
+          <button
+            key={idx}
+            onClick={() => onCall(idx)}
+            disabled={match.caller !== null}
+            className={`flex-shrink-0 rounded-xl border-2 border-black px-3 py-1 text-left transition-all ${
+              match.caller === idx ? 'bg-set-red text-white' : 'bg-set-yellow text-black disabled:opacity-50'
+            }`}
+          >
+            <div className="text-xs font-bold">{player.name}</div>
+            <div className="text-lg font-black leading-tight">{player.score}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-sm font-bold px-1">
+        <span>
+          {caller
+            ? `${caller.name}: pick 3 cards · ${secondsLeft}s`
+            : lastClaim === 'valid'
+            ? 'SET!'
+            : lastClaim === 'invalid'
+            ? 'Not a SET'
+            : lastClaim === 'timeout'
+            ? 'Too slow!'
+            : 'Tap your name to call SET'}
+        </span>
+        <span className="flex gap-2 flex-shrink-0">
+          <button onClick={() => setShowLog(!showLog)} className="underline">
+            Log
+          </button>
+          <button onClick={onEnd} className="underline">
+            End
+          </button>
+        </span>
+      </div>
+
+      {showLog && (
+        <ol className="max-h-32 overflow-y-auto text-xs space-y-1 px-1">
+          {match.log.length === 0 && <li className="text-gray-500">No claims yet</li>}
+          {[...match.log].reverse().map((entry, idx) => (
+            <li key={idx}>
+              <span className="text-gray-500">{new Date(entry.time).toLocaleTimeString()}</span>{' '}
+              {match.players[entry.player].name} {OUTCOME_LABELS[entry.outcome]}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { analyzeSet } from '../game/solver'
+import type { AttributeAnalysis, Card } from '../types'
+
+interface SetCheckerProps {
+  cards: Card[] // the picked cards, up to three
+  onClose: () => void
+}
+
+interface VerdictRowProps {
+  label: string
+  analysis: AttributeAnalysis<string | number>
+}
+
+function VerdictRow({ label, analysis }: VerdictRowProps) {
+  const ok = analysis.verdict !== 'two same'
+  return (
+    <li className={`flex justify-between gap-3 ${ok ? '' : 'text-set-red'}`}>
+      <span>
+        {label}: {analysis.values.join(', ')} {ok ? '✓' : '✗'}
+      </span>
+      <span className="font-normal text-gray-600">
+        {ok ? analysis.verdict : 'two the same, one different'}
+      </span>
+    </li>
+  )
+}
+
+/**
+ * Verdict for three cards picked by the user, explaining attribute by
+ * attribute why they are or are not a SET.
+ */
+export function SetChecker({ cards, onClose }: SetCheckerProps) {
+  const analysis = cards.length === 3 ? analyzeSet([cards[0], cards[1], cards[2]]) : null
+
+  return (
+    <div className="bg-white/95 rounded-2xl border-2 border-black shadow-xl p-3 text-sm font-bold">
+      <div className="flex justify-between items-center mb-1">
+        <span className="font-black">
+          {analysis
+            ? analysis.isSet
+              ? 'SET!'
+              : 'Not a SET'
+            : `Tap ${3 - cards.length} more card${cards.length === 2 ? '' : 's'} to check`}
+        </span>
+        <button onClick={onClose} className="underline">
+          Done
+        </button>
+      </div>
+      {analysis && (
+        <>
+          <div className="text-xs text-gray-600 mb-1">Cards {cards.map((card) => `#${card.id + 1}`).join(', ')}</div>
+          <ul className="space-y-0.5">
+            <VerdictRow label="shape" analysis={analysis.shape} />
+            <VerdictRow label="color" analysis={analysis.color} />
+            <VerdictRow label="number" analysis={analysis.number} />
+            <VerdictRow label="shading" analysis={analysis.shading} />
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import type { Backend, BackendSelection } from '../analysis/backends'
+import type { DetectorConfig } from '../analysis/opencv-detector'
+import type { DetectorSettings } from '../analysis/worker-protocol'
+import { DetectorPanel } from './DetectorPanel'
+
+interface SettingsViewProps {
+  backend: BackendSelection | null // null while the models (re)load
+  backendOverride: Backend | null
+  modelVersion: string | null
+  loadError: string | null
+  detector: DetectorSettings
+  lastDetector: DetectorConfig | null
+  onChangeBackend: (override: Backend | null) => void
+  onChangeDetector: (settings: DetectorSettings) => void
+  onClose: () => void
+}
+
+const BACKEND_LABELS: Record<Backend, string> = {
+  webgpu: 'WebGPU',
+  webgl: 'WebGL',
+  wasm: 'WASM',
+}
+
+// Automatic (null) first, then each backend
+const BACKEND_CHOICES: (Backend | null)[] = [null, 'webgpu', 'webgl', 'wasm']
+
+/**
+ * App settings: which ONNX Runtime backend the classifier runs on, with the
+ * benchmark behind the automatic choice and a manual override, and the card
+ * detector's thresholds.
+ */
+export function SettingsView({
+  backend,
+  backendOverride,
+  modelVersion,
+  loadError,
+  detector,
+  lastDetector,
+  onChangeBackend,
+  onChangeDetector,
+  onClose,
+}: SettingsViewProps) {
+  return (
+    <div className="absolute inset-0 z-20 bg-set-red flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b-4 border-set-yellow">
+        <div className="text-white">
+          <h2 className="text-lg font-black">Settings</h2>
+          {modelVersion && <p className="text-xs font-bold opacity-80">Classifier model {modelVersion}</p>}
+        </div>
+        <button
+          onClick={onClose}
+          className="w-10 h-10 rounded-full bg-white border-2 border-black font-black hover:bg-set-yellow"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto hide-scrollbar p-3 space-y-3">
+        <div className="bg-white rounded-xl border-2 border-black shadow-lg p-3 text-sm font-bold space-y-3">
+          <div>
+            <h3 className="font-black">Inference backend</h3>
+            {loadError ? (
+              <p className="text-set-red">{loadError}</p>
+            ) : backend ? (
+              <>
+                <p>
+                  Running on {BACKEND_LABELS[backend.backend]} ·{' '}
+                  {backendOverride ? 'chosen by you' : 'fastest on this device'}
+                </p>
+                {backend.fallbackFrom && (
+                  <p className="text-xs text-set-red">
+                    {BACKEND_LABELS[backend.fallbackFrom]} failed to load, so the fastest backend was picked instead
+                  </p>
+                )}
+                <p className="text-xs text-gray-600">
+                  {backend.isolated
+                    ? `WASM uses ${backend.threads} thread${backend.threads === 1 ? '' : 's'}`
+                    : 'WASM uses 1 thread: the page is not cross-origin isolated (COOP/COEP headers)'}
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-600">Loading…</p>
+            )}
+          </div>
+
+          {backend && backend.benchmarks.length > 0 && (
+            <ul className="text-xs space-y-0.5">
+              {backend.benchmarks.map((benchmark) => (
+                <li key={benchmark.backend} className="flex justify-between gap-3">
+                  <span>{BACKEND_LABELS[benchmark.backend]}</span>
+                  <span className={benchmark.ms === null || benchmark.unverified ? 'text-gray-500 font-normal' : ''}>
+                    {benchmark.ms === null ? benchmark.error : `${Math.round(benchmark.ms)} ms`}
+                    {benchmark.unverified && ' (unverified: WASM failed)'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {BACKEND_CHOICES.map((choice) => (
+              <button
+                key={choice ?? 'auto'}
+                onClick={() => onChangeBackend(choice)}
+                disabled={!backend && !loadError}
+                className={`text-xs font-black px-3 py-2 rounded-full border-2 border-black transition-all disabled:opacity-50 ${
+                  choice === backendOverride ? 'bg-set-yellow text-black' : 'bg-white text-black hover:bg-set-yellow'
+                }`}
+              >
+                {choice ? BACKEND_LABELS[choice].toUpperCase() : 'AUTO'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs font-normal text-gray-600">
+            AUTO benchmarks the backends again and keeps the fastest one that gives correct results.
+          </p>
+        </div>
+
+        <DetectorPanel settings={detector} lastDetector={lastDetector} onChange={onChangeDetector} />
+      </div>
+    </div>
+  )
+}
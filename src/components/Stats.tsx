@@ -7,7 +7,7 @@ interface StatsProps {
 
 export function Stats({ fps, results }: StatsProps) {
   return (
-    <div className="flex gap-4 mt-2 text-sm">
+    <div className="flex flex-wrap gap-4 mt-2 text-sm">
       <div className="bg-gray-800 rounded px-3 py-1">
         <span className="text-gray-400">FPS: </span>
         <span className={fps > 20 ? 'text-green-400' : fps > 10 ? 'text-yellow-400' : 'text-red-400'}>
@@ -0,0 +1,39 @@
+/**
+ * Boards built without the camera (manual entry, generated boards).
+ *
+ * Virtual cards have no position in an image, so they carry an empty
+ * bounding box and full confidence.
+ */
+
+import { vectorToCard } from './solver'
+import { CLASSIC_SPACE, allVectors } from './vectors'
+import type { Card, CardProperties } from '../types'
+
+/**
+ * All 81 distinct cards, ordered by shape, color, number, then shading.
+ */
+export function fullDeck(): CardProperties[] {
+  return allVectors(CLASSIC_SPACE).map(vectorToCard)
+}
+
+/**
+ * Check if two cards have identical properties.
+ */
+export function isSameCard(a: CardProperties, b: CardProperties): boolean {
+  return a.shape === b.shape && a.color === b.color && a.number === b.number && a.shading === b.shading
+}
+
+/**
+ * Turn a list of card properties into Cards the solver and UI understand.
+ */
+export function toVirtualCards(board: CardProperties[]): Card[] {
+  return board.map((props, idx) => ({
+    id: idx,
+    bbox: [0, 0, 0, 0],
+    confidence: 1,
+    shape: props.shape,
+    color: props.color,
+    number: props.number,
+    shading: props.shading,
+  }))
+}
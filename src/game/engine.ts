@@ -0,0 +1,119 @@
+/**
+ * Single-device SET game engine.
+ *
+ * Game state is immutable: every action returns a new state, which keeps the
+ * engine easy to drive from React. Rules:
+ * - The 81-card deck is shuffled with a seedable RNG and 12 cards are dealt.
+ * - Whenever the board holds no set, 3 more cards are dealt.
+ * - A claimed set is removed; the board is refilled to 12 from the deck.
+ * - The game ends when the deck is empty and no set remains on the board.
+ */
+
+import { fullDeck, toVirtualCards } from './board'
+import { findAllSets, isValidSet } from './solver'
+import type { CardProperties } from '../types'
+
+export const BOARD_SIZE = 12
+export const DEAL_SIZE = 3
+
+export interface GameState {
+  seed: number
+  deck: CardProperties[] // undealt cards, next card last
+  board: CardProperties[]
+  claimed: [CardProperties, CardProperties, CardProperties][]
+  score: number
+  isOver: boolean
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Fisher-Yates shuffle into a new array.
+ */
+export function shuffle<T>(items: T[], rng: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+/**
+ * Count the sets on a board.
+ */
+export function countSets(board: CardProperties[]): number {
+  return findAllSets(toVirtualCards(board)).length
+}
+
+/**
+ * Deal cards until the board has at least `size` cards and contains a set,
+ * or the deck runs out. Marks the game over when no set can be found.
+ */
+function settle(state: GameState, size: number): GameState {
+  const deck = [...state.deck]
+  const board = [...state.board]
+
+  while (board.length < size && deck.length > 0) {
+    board.push(...deck.splice(-DEAL_SIZE).reverse())
+  }
+  while (countSets(board) === 0 && deck.length > 0) {
+    board.push(...deck.splice(-DEAL_SIZE).reverse())
+  }
+
+  return { ...state, deck, board, isOver: deck.length === 0 && countSets(board) === 0 }
+}
+
+/**
+ * Start a new game from a shuffled deck.
+ */
+export function newGame(seed: number = Date.now()): GameState {
+  const deck = shuffle(fullDeck(), createRng(seed))
+  return settle({ seed, deck, board: [], claimed: [], score: 0, isOver: false }, BOARD_SIZE)
+}
+
+/**
+ * Claim three board cards as a set. Returns null if they are not a set
+ * (the state is unchanged).
+ */
+export function claimSet(state: GameState, indices: [number, number, number]): GameState | null {
+  if (state.isOver || new Set(indices).size !== 3) return null
+  const cards = indices.map((idx) => state.board[idx])
+  if (cards.some((card) => !card)) return null
+
+  const [c1, c2, c3] = cards
+  if (!isValidSet(c1, c2, c3)) return null
+
+  // Refill the gaps in place so the rest of the layout stays put,
+  // unless the board had grown past its normal size
+  const deck = [...state.deck]
+  const board =
+    state.board.length > BOARD_SIZE
+      ? state.board.filter((_, idx) => !indices.includes(idx))
+      : state.board
+          .map((card, idx) => (indices.includes(idx) ? deck.pop() : card))
+          .filter((card): card is CardProperties => card !== undefined)
+
+  return settle(
+    {
+      ...state,
+      deck,
+      board,
+      claimed: [...state.claimed, [c1, c2, c3]],
+      score: state.score + 1,
+    },
+    BOARD_SIZE
+  )
+}
@@ -0,0 +1,92 @@
+/**
+ * Hot-seat multiplayer refereeing.
+ *
+ * Players share one device: a player calls SET, then has a limited time to
+ * pick three cards. A valid claim scores a point, an invalid or late one
+ * costs a penalty. Like the game engine, every action returns a new state.
+ */
+
+import { isValidSet } from './solver'
+import type { CardProperties } from '../types'
+
+export const CLAIM_TIMEOUT_MS = 10000
+export const SET_POINTS = 1
+export const PENALTY_POINTS = 1
+
+export interface Player {
+  name: string
+  score: number
+}
+
+export interface MatchLogEntry {
+  time: number
+  player: number // index into players
+  outcome: 'set' | 'miss' | 'timeout'
+  cards?: CardProperties[]
+}
+
+export interface MatchState {
+  players: Player[]
+  log: MatchLogEntry[]
+  caller: number | null // player currently claiming a set
+  deadline: number | null // when the current call times out
+}
+
+export function createMatch(names: string[]): MatchState {
+  return {
+    players: names.map((name) => ({ name, score: 0 })),
+    log: [],
+    caller: null,
+    deadline: null,
+  }
+}
+
+/**
+ * A player calls SET. Ignored while another call is in progress.
+ */
+export function callSet(state: MatchState, player: number, now: number = Date.now()): MatchState {
+  if (state.caller !== null || !state.players[player]) return state
+  return { ...state, caller: player, deadline: now + CLAIM_TIMEOUT_MS }
+}
+
+function award(state: MatchState, entry: MatchLogEntry, points: number): MatchState {
+  return {
+    players: state.players.map((p, idx) => (idx === entry.player ? { ...p, score: p.score + points } : p)),
+    log: [...state.log, entry],
+    caller: null,
+    deadline: null,
+  }
+}
+
+/**
+ * Check the caller's three cards. Claims after the deadline count as timeouts.
+ */
+export function resolveClaim(
+  state: MatchState,
+  cards: [CardProperties, CardProperties, CardProperties],
+  now: number = Date.now()
+): { state: MatchState; valid: boolean } {
+  if (state.caller === null) return { state, valid: false }
+  if (state.deadline !== null && now > state.deadline) {
+    return { state: expireCall(state, now), valid: false }
+  }
+
+  const valid = isValidSet(...cards)
+  const entry: MatchLogEntry = { time: now, player: state.caller, outcome: valid ? 'set' : 'miss', cards }
+  return { state: award(state, entry, valid ? SET_POINTS : -PENALTY_POINTS), valid }
+}
+
+/**
+ * The caller ran out of time.
+ */
+export function expireCall(state: MatchState, now: number = Date.now()): MatchState {
+  if (state.caller === null) return state
+  return award(state, { time: now, player: state.caller, outcome: 'timeout' }, -PENALTY_POINTS)
+}
+
+/**
+ * Withdraw the current call without penalty (e.g. the board changed).
+ */
+export function cancelCall(state: MatchState): MatchState {
+  return { ...state, caller: null, deadline: null }
+}
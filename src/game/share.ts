@@ -0,0 +1,56 @@
+/**
+ * Shareable board links: a board's cards in compact notation in the URL hash,
+ * e.g. "#board=1RFD,2RSO,3GES".
+ */
+
+import { formatCard, parseBoard } from './solver'
+import type { Card, CardProperties } from '../types'
+
+const HASH_KEY = 'board'
+
+/**
+ * Detected cards in table order: top to bottom in rows, left to right within a
+ * row, so the shared board is laid out like the photo. Cards whose centres are
+ * within half a card height of each other count as one row.
+ */
+export function orderByPosition(cards: Card[]): Card[] {
+  const center = (card: Card) => ({
+    x: (card.bbox[0] + card.bbox[2]) / 2,
+    y: (card.bbox[1] + card.bbox[3]) / 2,
+    height: card.bbox[3] - card.bbox[1],
+  })
+  const byY = [...cards].sort((a, b) => center(a).y - center(b).y)
+
+  const rows: Card[][] = []
+  for (const card of byY) {
+    const row = rows[rows.length - 1]
+    if (row && center(card).y - center(row[0]).y < center(row[0]).height / 2) row.push(card)
+    else rows.push([card])
+  }
+  return rows.flatMap((row) => row.sort((a, b) => center(a).x - center(b).x))
+}
+
+/**
+ * URL hash for a board.
+ */
+export function boardToHash(cards: CardProperties[]): string {
+  return `#${HASH_KEY}=${cards.map(formatCard).join(',')}`
+}
+
+/**
+ * Whether a URL hash carries a board link.
+ */
+export function hasBoardHash(hash: string): boolean {
+  return new URLSearchParams(hash.replace(/^#/, '')).has(HASH_KEY)
+}
+
+/**
+ * Board from a URL hash, or null if the hash holds no board.
+ * Throws a descriptive Error if the board is malformed.
+ */
+export function boardFromHash(hash: string): CardProperties[] | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const value = params.get(HASH_KEY)
+  if (value === null) return null
+  return parseBoard(value)
+}
@@ -6,9 +6,25 @@
  * - For each property (shape, color, number, shading), all three cards must be
  *   either all the same OR all different.
  * - This is equivalent to: count of unique values ≠ 2
+ *
+ * The rules themselves live in the generic Z_3^n core (vectors.ts); the
+ * functions here adapt Cards to and from its vectors.
  */
 
-import type { Card, SetResult, Shape, Color, Number, Shading } from '../types'
+import type {
+  AttributeAnalysis,
+  Card,
+  CardAssumption,
+  CardProperties,
+  SetAnalysis,
+  SetResult,
+  UltraSetResult,
+  Shape,
+  Color,
+  Number,
+  Shading,
+} from '../types'
+import { CLASSIC_SPACE, completeSet, createSetSpace, decode, encode, findSets, isSet, type Vector } from './vectors'
 
 // Constants for mapping indices to values
 export const SHAPES: Shape[] = ['diamond', 'oval', 'squiggle']
@@ -17,145 +33,360 @@ export const NUMBERS: Number[] = [1, 2, 3]
 export const SHADINGS: Shading[] = ['solid', 'striped', 'empty']
 
 /**
- * Check if three values are either all the same or all different.
- * This is the core rule of the Set game.
- * 
- * Returns true if valid (all same or all different)
- * Returns false if invalid (exactly 2 are the same)
+ * A card as a vector of value indices, in shape, color, number, shading order.
+ */
+export function cardToVector(card: CardProperties): Vector {
+  return [
+    SHAPES.indexOf(card.shape),
+    COLORS.indexOf(card.color),
+    NUMBERS.indexOf(card.number),
+    SHADINGS.indexOf(card.shading),
+  ]
+}
+
+export function vectorToCard(vector: Vector): CardProperties {
+  return indicesToCard(vector[0], vector[1], vector[2], vector[3])
+}
+
+/**
+ * A card's index in the 81-card deck (0-80), also used as its lookup key.
  */
-function isIdenticalOrDistinct<T>(v1: T, v2: T, v3: T): boolean {
-  const uniqueCount = new Set([v1, v2, v3]).size
-  // Valid: 1 (all same) or 3 (all different)
-  // Invalid: 2 (two same, one different)
-  return uniqueCount !== 2
+export function encodeCard(card: CardProperties): number {
+  return encode(CLASSIC_SPACE, cardToVector(card))
+}
+
+export function decodeCard(code: number): CardProperties {
+  return vectorToCard(decode(CLASSIC_SPACE, code))
 }
 
 /**
  * Check if three cards form a valid Set.
  */
-export function isValidSet(c1: Card, c2: Card, c3: Card): boolean {
-  return (
-    isIdenticalOrDistinct(c1.shape, c2.shape, c3.shape) &&
-    isIdenticalOrDistinct(c1.color, c2.color, c3.color) &&
-    isIdenticalOrDistinct(c1.number, c2.number, c3.number) &&
-    isIdenticalOrDistinct(c1.shading, c2.shading, c3.shading)
-  )
+export function isValidSet(c1: CardProperties, c2: CardProperties, c3: CardProperties): boolean {
+  return isSet(CLASSIC_SPACE, [cardToVector(c1), cardToVector(c2), cardToVector(c3)])
 }
 
 /**
  * Find all valid Sets from a list of cards.
- * 
- * Uses brute-force O(n³) approach, which is fine since n ≤ 21 typically
- * (max ~1,771 combinations for 21 cards).
+ *
+ * For each pair of cards the required third card is looked up by its code,
+ * so this is O(n²) rather than checking every triple.
  */
 export function findAllSets(cards: Card[]): SetResult[] {
-  const sets: SetResult[] = []
-  const n = cards.length
-
-  for (let i = 0; i < n - 2; i++) {
-    for (let j = i + 1; j < n - 1; j++) {
-      for (let k = j + 1; k < n; k++) {
-        if (isValidSet(cards[i], cards[j], cards[k])) {
-          sets.push({
-            cards: [cards[i], cards[j], cards[k]],
-            indices: [i, j, k] as [number, number, number],
-          })
-        }
+  return findSets(CLASSIC_SPACE, cards.map(encodeCard)).map(([i, j, k]) => makeSetResult(cards, i, j, k))
+}
+
+/**
+ * @deprecated findAllSets now uses the same third-card lookup; use it instead.
+ */
+export function findAllSetsOptimized(cards: Card[]): SetResult[] {
+  return findAllSets(cards)
+}
+
+function makeSetResult(cards: Card[], i: number, j: number, k: number): SetResult {
+  return {
+    cards: [cards[i], cards[j], cards[k]],
+    indices: [i, j, k] as [number, number, number],
+    likelihood: cardLikelihood(cards[i]) * cardLikelihood(cards[j]) * cardLikelihood(cards[k]),
+  }
+}
+
+/**
+ * Probability that a card's attributes were all read correctly, i.e. the
+ * product of the classifier's probability for each chosen value.
+ * Cards without probabilities (mock or manually entered) and hand-corrected
+ * cards count as certain.
+ */
+export function cardLikelihood(card: Card): number {
+  if (!card.probabilities || card.corrected) return 1
+  const { shape, color, number, shading } = card.probabilities
+  return (
+    (shape[SHAPES.indexOf(card.shape)] ?? 1) *
+    (color[COLORS.indexOf(card.color)] ?? 1) *
+    (number[NUMBERS.indexOf(card.number)] ?? 1) *
+    (shading[SHADINGS.indexOf(card.shading)] ?? 1)
+  )
+}
+
+/**
+ * Order sets from most to least likely and mark those whose joint likelihood
+ * falls below the threshold as uncertain.
+ */
+export function rankSets(sets: SetResult[], threshold: number): SetResult[] {
+  return sets
+    .map((set) => ({ ...set, uncertain: set.likelihood < threshold }))
+    .sort((a, b) => b.likelihood - a.likelihood)
+}
+
+/**
+ * Largest selection of sets that share no cards (an exact maximum set packing),
+ * e.g. the most sets that could be taken off the board at once.
+ *
+ * Branch and bound over the sets from findAllSets: each set is either taken or
+ * skipped, and a branch is cut once the free cards left could not hold enough
+ * sets to beat the best packing found so far. Boards have few enough sets for
+ * this to be instant.
+ */
+export function findMaximumPacking(sets: SetResult[]): SetResult[] {
+  const used = new Set<number>()
+  const cardCount = new Set(sets.flatMap((set) => set.indices)).size
+  const chosen: SetResult[] = []
+  let best: SetResult[] = []
+
+  const search = (start: number) => {
+    if (chosen.length > best.length) best = [...chosen]
+    const freeCards = cardCount - used.size
+    if (chosen.length + Math.floor(freeCards / 3) <= best.length) return
+
+    for (let s = start; s < sets.length; s++) {
+      const { indices } = sets[s]
+      if (indices.some((idx) => used.has(idx))) continue
+      indices.forEach((idx) => used.add(idx))
+      chosen.push(sets[s])
+      search(s + 1)
+      chosen.pop()
+      indices.forEach((idx) => used.delete(idx))
+    }
+  }
+
+  search(0)
+  return best
+}
+
+/**
+ * Find Ultra SET combinations: two disjoint pairs of cards whose missing third
+ * card is the same card, which itself is not on the table.
+ *
+ * Every pair's required third card is bucketed by its code, then any two pairs
+ * in a bucket that share no cards form a combination. Four distinct cards
+ * split into such pairs in at most one way, so each combination is found once.
+ */
+export function findUltraSets(cards: Card[]): UltraSetResult[] {
+  const onTable = new Set(cards.map(encodeCard))
+  const pairsByMissing = new Map<number, [number, number][]>()
+
+  for (let i = 0; i < cards.length - 1; i++) {
+    for (let j = i + 1; j < cards.length; j++) {
+      const missing = encodeCard(computeRequiredThirdCard(cards[i], cards[j]))
+      if (onTable.has(missing)) continue
+      const pairs = pairsByMissing.get(missing)
+      if (pairs) pairs.push([i, j])
+      else pairsByMissing.set(missing, [[i, j]])
+    }
+  }
+
+  const results: UltraSetResult[] = []
+  for (const [missing, pairs] of pairsByMissing) {
+    for (let p = 0; p < pairs.length - 1; p++) {
+      for (let q = p + 1; q < pairs.length; q++) {
+        const indices: [number, number, number, number] = [...pairs[p], ...pairs[q]]
+        if (new Set(indices).size < 4) continue
+        results.push({
+          cards: indices.map((idx) => cards[idx]) as [Card, Card, Card, Card],
+          indices,
+          missing: decodeCard(missing),
+        })
       }
     }
   }
 
-  return sets
+  return results
+}
+
+// A possible reading of a detected card and how likely it is
+interface Interpretation {
+  props: CardProperties
+  probability: number
 }
 
 /**
- * Optimized set finding using hash-based lookup.
- * For each pair of cards, compute what the third card would need to be
- * for a valid set, then check if that card exists.
- * 
- * O(n²) instead of O(n³), useful for larger card counts.
+ * Find sets that would exist if some ambiguous cards were misread.
+ *
+ * Each card is expanded into its most likely readings, taking every attribute
+ * value with probability ≥ cutoff. The third-card lookup from
+ * findAllSets is then run over all readings. Sets that are valid with
+ * every card as predicted are skipped (findAllSets reports those); for the rest
+ * the most likely combination of readings is reported with its assumptions.
  */
-export function findAllSetsOptimized(cards: Card[]): SetResult[] {
-  const sets: SetResult[] = []
-  
-  // Build a lookup map: card signature -> index
-  const cardMap = new Map<string, number>()
-  cards.forEach((card, idx) => {
-    const key = `${card.shape}-${card.color}-${card.number}-${card.shading}`
-    cardMap.set(key, idx)
+export function findAlternativeSets(
+  cards: Card[],
+  cutoff: number = 0.2,
+  maxInterpretations: number = 4
+): SetResult[] {
+  const interpretations = cards.map((card) => interpretCard(card, cutoff, maxInterpretations))
+
+  // Lookup: reading signature -> cards that could be that reading
+  const readingMap = new Map<number, { idx: number; reading: Interpretation }[]>()
+  interpretations.forEach((readings, idx) => {
+    for (const reading of readings) {
+      const key = encodeCard(reading.props)
+      if (!readingMap.has(key)) readingMap.set(key, [])
+      readingMap.get(key)!.push({ idx, reading })
+    }
   })
 
-  // For each pair, compute required third card
+  // Best combination of readings per card triple
+  const best = new Map<string, SetResult>()
+
   for (let i = 0; i < cards.length - 1; i++) {
     for (let j = i + 1; j < cards.length; j++) {
-      const required = computeRequiredThirdCard(cards[i], cards[j])
-      const key = `${required.shape}-${required.color}-${required.number}-${required.shading}`
-
-      if (cardMap.has(key)) {
-        const k = cardMap.get(key)!
-        // Only count if k > j to avoid duplicates
-        if (k > j) {
-          sets.push({
-            cards: [cards[i], cards[j], cards[k]],
-            indices: [i, j, k] as [number, number, number],
-          })
+      for (const a of interpretations[i]) {
+        for (const b of interpretations[j]) {
+          const key = encodeCard(computeRequiredThirdCard(a.props, b.props))
+          for (const { idx: k, reading: c } of readingMap.get(key) ?? []) {
+            // Only count if k > j to avoid duplicates
+            if (k <= j) continue
+            // Already a set as predicted: findAllSets reports it, so an alternative
+            // reading of the same triple would only duplicate it
+            if (isValidSet(cards[i], cards[j], cards[k])) continue
+
+            const readings: [Interpretation, Interpretation, Interpretation] = [a, b, c]
+            const indices: [number, number, number] = [i, j, k]
+            const assumptions = describeChanges(cards, indices, readings)
+            if (assumptions.length === 0) continue // a plain set
+
+            const likelihood = a.probability * b.probability * c.probability
+            const tripleKey = indices.join('-')
+            const existing = best.get(tripleKey)
+            if (existing && existing.likelihood >= likelihood) continue
+
+            best.set(tripleKey, {
+              cards: indices.map((idx, n) => ({ ...cards[idx], ...readings[n].props })) as [Card, Card, Card],
+              indices,
+              likelihood,
+              uncertain: true,
+              assumptions,
+            })
+          }
         }
       }
     }
   }
 
-  return sets
+  return [...best.values()].sort((x, y) => y.likelihood - x.likelihood)
+}
+
+/**
+ * The most likely readings of a card, its predicted reading always first.
+ */
+function interpretCard(card: Card, cutoff: number, maxInterpretations: number): Interpretation[] {
+  const predicted: Interpretation = { props: cardProperties(card), probability: cardLikelihood(card) }
+  if (!card.probabilities || card.corrected) return [predicted]
+
+  // Candidate values per attribute: the prediction plus anything above the cutoff
+  const candidates = <T>(values: T[], probs: number[], current: T) =>
+    values
+      .map((value, i) => ({ value, p: probs[i] ?? 0 }))
+      .filter(({ value, p }) => value === current || p >= cutoff)
+
+  const { probabilities } = card
+  const shapes = candidates(SHAPES, probabilities.shape, card.shape)
+  const colors = candidates(COLORS, probabilities.color, card.color)
+  const numbers = candidates(NUMBERS, probabilities.number, card.number)
+  const shadings = candidates(SHADINGS, probabilities.shading, card.shading)
+
+  const alternatives: Interpretation[] = []
+  for (const shape of shapes) {
+    for (const color of colors) {
+      for (const number of numbers) {
+        for (const shading of shadings) {
+          const props = { shape: shape.value, color: color.value, number: number.value, shading: shading.value }
+          if (encodeCard(props) === encodeCard(predicted.props)) continue
+          alternatives.push({ props, probability: shape.p * color.p * number.p * shading.p })
+        }
+      }
+    }
+  }
+
+  alternatives.sort((a, b) => b.probability - a.probability)
+  return [predicted, ...alternatives.slice(0, maxInterpretations - 1)]
+}
+
+/**
+ * List the cards whose reading differs from their prediction, and how.
+ */
+function describeChanges(
+  cards: Card[],
+  indices: [number, number, number],
+  readings: [Interpretation, Interpretation, Interpretation]
+): CardAssumption[] {
+  const assumptions: CardAssumption[] = []
+  indices.forEach((idx, n) => {
+    const changes: Partial<CardProperties> = {}
+    const props = readings[n].props
+    if (props.shape !== cards[idx].shape) changes.shape = props.shape
+    if (props.color !== cards[idx].color) changes.color = props.color
+    if (props.number !== cards[idx].number) changes.number = props.number
+    if (props.shading !== cards[idx].shading) changes.shading = props.shading
+    if (Object.keys(changes).length > 0) assumptions.push({ index: idx, changes })
+  })
+  return assumptions
+}
+
+/**
+ * Human-readable assumption, e.g. "if card #4 is empty".
+ * Cards are numbered by id, matching the labels drawn on the canvas.
+ */
+export function describeAssumption(assumption: CardAssumption, cards: Card[]): string {
+  const { shape, color, number, shading } = assumption.changes
+  const parts: string[] = []
+  if (shading) parts.push(`is ${shading}`)
+  if (color) parts.push(`is ${color}`)
+  if (shape) parts.push(`is a ${shape}`)
+  if (number) parts.push(`has ${number} shape${number > 1 ? 's' : ''}`)
+  return `if card #${cards[assumption.index].id + 1} ${parts.join(' and ')}`
+}
+
+/**
+ * Human-readable card, e.g. "2 red striped ovals".
+ */
+export function describeCard(card: CardProperties): string {
+  return `${card.number} ${card.color} ${card.shading} ${card.shape}${card.number > 1 ? 's' : ''}`
+}
+
+function cardProperties(card: CardProperties): CardProperties {
+  return { shape: card.shape, color: card.color, number: card.number, shading: card.shading }
 }
 
 /**
  * Given two cards, compute what properties the third card would need
  * to form a valid set.
  */
-function computeRequiredThirdCard(
-  c1: Card,
-  c2: Card
-): { shape: Shape; color: Color; number: Number; shading: Shading } {
-  return {
-    shape: getThirdValue(c1.shape, c2.shape, SHAPES),
-    color: getThirdValue(c1.color, c2.color, COLORS),
-    number: getThirdValue(c1.number, c2.number, NUMBERS),
-    shading: getThirdValue(c1.shading, c2.shading, SHADINGS),
-  }
+export function computeRequiredThirdCard(c1: CardProperties, c2: CardProperties): CardProperties {
+  // Two cards always determine a third when v = 3
+  return vectorToCard(completeSet(CLASSIC_SPACE, [cardToVector(c1), cardToVector(c2)])!)
 }
 
 /**
  * Given two values of a property, determine what the third value must be.
- * - If both are the same, third must also be the same
- * - If both are different, third must be the remaining value
+ *
+ * @deprecated Use completeSet from vectors.ts, which works on whole cards.
  */
-function getThirdValue<T>(v1: T, v2: T, allValues: T[]): T {
-  if (v1 === v2) {
-    // All same
-    return v1
-  }
-  // All different - find the third value
-  return allValues.find((v) => v !== v1 && v !== v2)!
+export function getThirdValue<T>(v1: T, v2: T, allValues: T[]): T {
+  const space = createSetSpace(1, allValues.length)
+  const indices = [v1, v2].map((value) => allValues.indexOf(value))
+  if (indices.includes(-1)) throw new RangeError('Both values must be among allValues')
+  const [third] = completeSet(space, indices.map((index) => [index]))!
+  return allValues[third]
 }
 
 /**
- * Analyze a set and return human-readable description of why it's valid.
+ * Analyze any three cards attribute by attribute. Each attribute is all the
+ * same, all different, or (breaking the set) two the same and one different.
  */
-export function analyzeSet(cards: [Card, Card, Card]): {
-  shape: 'all same' | 'all different'
-  color: 'all same' | 'all different'
-  number: 'all same' | 'all different'
-  shading: 'all same' | 'all different'
-} {
-  const analyze = <T>(values: T[]): 'all same' | 'all different' => {
+export function analyzeSet(cards: [CardProperties, CardProperties, CardProperties]): SetAnalysis {
+  const analyze = <T>(values: [T, T, T]): AttributeAnalysis<T> => {
     const unique = new Set(values).size
-    return unique === 1 ? 'all same' : 'all different'
+    return { values, verdict: unique === 1 ? 'all same' : unique === 3 ? 'all different' : 'two same' }
   }
+  const [c1, c2, c3] = cards
 
   return {
-    shape: analyze(cards.map((c) => c.shape)),
-    color: analyze(cards.map((c) => c.color)),
-    number: analyze(cards.map((c) => c.number)),
-    shading: analyze(cards.map((c) => c.shading)),
+    isSet: isValidSet(c1, c2, c3),
+    shape: analyze([c1.shape, c2.shape, c3.shape]),
+    color: analyze([c1.color, c2.color, c3.color]),
+    number: analyze([c1.number, c2.number, c3.number]),
+    shading: analyze([c1.shading, c2.shading, c3.shading]),
   }
 }
 
@@ -175,3 +406,85 @@ export function indicesToCard(
     shading: SHADINGS[shadingIdx],
   }
 }
+
+// Compact notation letters, indexed like COLORS/SHADINGS/SHAPES
+const COLOR_LETTERS = ['R', 'G', 'P'] // red, green, purple
+const SHADING_LETTERS = ['F', 'S', 'E'] // filled (solid), striped, empty
+const SHAPE_LETTERS = ['D', 'O', 'S'] // diamond, oval, squiggle
+
+/**
+ * Compact notation for a card: number, color, shading, shape,
+ * e.g. "2RSO" = 2 red striped ovals.
+ */
+export function formatCard(card: CardProperties): string {
+  return (
+    String(card.number) +
+    COLOR_LETTERS[COLORS.indexOf(card.color)] +
+    SHADING_LETTERS[SHADINGS.indexOf(card.shading)] +
+    SHAPE_LETTERS[SHAPES.indexOf(card.shape)]
+  )
+}
+
+/**
+ * Parse a card in compact notation ("2RSO", case-insensitive) or as its deck
+ * index 0-80 (see encodeCard). Throws a descriptive Error if malformed.
+ */
+export function parseCard(text: string): CardProperties {
+  const token = text.trim().toUpperCase()
+
+  if (/^\d+$/.test(token)) {
+    const code = Number(token)
+    if (code > 80) throw new Error(`Card index ${code} is outside 0-80`)
+    return decodeCard(code)
+  }
+
+  if (token.length !== 4) {
+    throw new Error(`"${text.trim()}" is not a card: expected number, color, shading, shape like 2RSO, or an index 0-80`)
+  }
+  const lookup = (letter: string, letters: string[], name: string, allowed: string) => {
+    const idx = letters.indexOf(letter)
+    if (idx < 0) throw new Error(`"${text.trim()}" has unknown ${name} "${letter}" (expected ${allowed})`)
+    return idx
+  }
+  const numberIdx = lookup(token[0], ['1', '2', '3'], 'number', '1, 2 or 3')
+  const colorIdx = lookup(token[1], COLOR_LETTERS, 'color', 'R, G or P')
+  const shadingIdx = lookup(token[2], SHADING_LETTERS, 'shading', 'F, S or E')
+  const shapeIdx = lookup(token[3], SHAPE_LETTERS, 'shape', 'D, O or S')
+  return indicesToCard(shapeIdx, colorIdx, numberIdx, shadingIdx)
+}
+
+/**
+ * A board as space-separated compact cards, e.g. "1RFD 2RSO 3GES".
+ */
+export function formatBoard(cards: CardProperties[]): string {
+  return cards.map(formatCard).join(' ')
+}
+
+/**
+ * Parse a board of cards separated by spaces, commas or newlines.
+ * Throws a descriptive Error naming the card at fault if any card is
+ * malformed or appears twice.
+ */
+export function parseBoard(text: string): CardProperties[] {
+  const tokens = text.split(/[\s,;]+/).filter(Boolean)
+  const cards: CardProperties[] = []
+  const positions = new Map<number, number>() // deck index -> position on the board
+
+  tokens.forEach((token, idx) => {
+    let card: CardProperties
+    try {
+      card = parseCard(token)
+    } catch (error) {
+      throw new Error(`Card ${idx + 1}: ${(error as Error).message}`)
+    }
+    const code = encodeCard(card)
+    const first = positions.get(code)
+    if (first !== undefined) {
+      throw new Error(`Card ${idx + 1} (${formatCard(card)}) is a duplicate of card ${first + 1}`)
+    }
+    positions.set(code, idx)
+    cards.push(card)
+  })
+
+  return cards
+}
@@ -0,0 +1,170 @@
+/**
+ * Generic SET core over vectors in Z_v^n.
+ *
+ * A card is a vector of n attributes, each a value in 0..v-1. A set is v cards
+ * where every attribute is either all the same or all different; for the
+ * classic game (n = 4, v = 3) that is the familiar three-card rule, and for
+ * v = 3 it is equivalent to the three vectors summing to zero mod 3.
+ *
+ * Cards are also encoded as integers in 0..v^n-1 (base v, first attribute
+ * most significant), so lookups need no string keys. The Card API in solver.ts
+ * is an adapter over this module; other decks (SET Junior with 3 attributes,
+ * homemade 5-attribute decks) can use it directly.
+ */
+
+export interface SetSpace {
+  attributes: number // n ≥ 1, the number of attributes per card
+  values: number // v ≥ 3, the values per attribute and the cards per set
+}
+
+export type Vector = number[]
+
+/**
+ * A checked SetSpace. Throws a RangeError unless n ≥ 1 and v ≥ 3 are integers
+ * (with v < 3 every pair of cards would be a set).
+ */
+export function createSetSpace(attributes: number, values: number): SetSpace {
+  const space = { attributes, values }
+  checkSpace(space)
+  return space
+}
+
+function checkSpace(space: SetSpace): void {
+  if (!Number.isInteger(space.attributes) || space.attributes < 1) {
+    throw new RangeError(`A deck needs at least 1 attribute, got ${space.attributes}`)
+  }
+  if (!Number.isInteger(space.values) || space.values < 3) {
+    throw new RangeError(`A deck needs at least 3 values per attribute, got ${space.values}`)
+  }
+}
+
+// The standard SET deck: 4 attributes with 3 values each
+export const CLASSIC_SPACE: SetSpace = createSetSpace(4, 3)
+
+/**
+ * Number of distinct cards in a deck, v^n.
+ */
+export function deckSize(space: SetSpace): number {
+  return space.values ** space.attributes
+}
+
+/**
+ * Encode a card vector as an integer in 0..v^n-1.
+ */
+export function encode(space: SetSpace, vector: Vector): number {
+  if (vector.length !== space.attributes) {
+    throw new Error(`Expected ${space.attributes} attributes, got ${vector.length}`)
+  }
+  let code = 0
+  for (const value of vector) {
+    if (!Number.isInteger(value) || value < 0 || value >= space.values) {
+      throw new Error(`Attribute value ${value} is outside 0..${space.values - 1}`)
+    }
+    code = code * space.values + value
+  }
+  return code
+}
+
+/**
+ * Decode an integer in 0..v^n-1 back into a card vector.
+ */
+export function decode(space: SetSpace, code: number): Vector {
+  if (!Number.isInteger(code) || code < 0 || code >= deckSize(space)) {
+    throw new Error(`Card code ${code} is outside 0..${deckSize(space) - 1}`)
+  }
+  const vector: Vector = new Array(space.attributes)
+  for (let i = space.attributes - 1; i >= 0; i--) {
+    vector[i] = code % space.values
+    code = Math.floor(code / space.values)
+  }
+  return vector
+}
+
+/**
+ * Every card in the deck, in code order.
+ */
+export function allVectors(space: SetSpace): Vector[] {
+  return Array.from({ length: deckSize(space) }, (_, code) => decode(space, code))
+}
+
+/**
+ * Check if v cards form a set: every attribute all the same or all different.
+ */
+export function isSet(space: SetSpace, vectors: Vector[]): boolean {
+  if (vectors.length !== space.values) return false
+  for (let i = 0; i < space.attributes; i++) {
+    const unique = new Set(vectors.map((vector) => vector[i])).size
+    if (unique !== 1 && unique !== space.values) return false
+  }
+  return true
+}
+
+/**
+ * The one card that completes a set with the given v-1 cards, or null if no
+ * card can (an attribute is neither all the same nor all different so far).
+ * For v = 3 this is the third-card lookup: each value is -(a + b) mod 3.
+ * Throws a RangeError for an invalid space or a wrong number of cards.
+ */
+export function completeSet(space: SetSpace, partial: Vector[]): Vector | null {
+  checkSpace(space)
+  if (partial.length !== space.values - 1) {
+    throw new RangeError(`A set of ${space.values} is completed from ${space.values - 1} cards, got ${partial.length}`)
+  }
+  const vector: Vector = new Array(space.attributes)
+  for (let i = 0; i < space.attributes; i++) {
+    const seen = new Set(partial.map((p) => p[i]))
+    if (seen.size === 1) {
+      vector[i] = partial[0][i]
+    } else if (seen.size === partial.length) {
+      // All different so far: the last card takes the one remaining value
+      let missing = 0
+      while (seen.has(missing)) missing++
+      vector[i] = missing
+    } else {
+      return null
+    }
+  }
+  return vector
+}
+
+/**
+ * Find every set among the given card codes. Returns index tuples in
+ * ascending order, one per set.
+ *
+ * Each choice of v-1 cards determines the last card, which is looked up by
+ * code; for v = 3 that makes enumeration O(n²) in the number of cards.
+ * Duplicate cards (the same code at several indices) are all considered.
+ */
+export function findSets(space: SetSpace, codes: number[]): number[][] {
+  checkSpace(space)
+  const indicesByCode = new Map<number, number[]>()
+  codes.forEach((code, idx) => {
+    const list = indicesByCode.get(code)
+    if (list) list.push(idx)
+    else indicesByCode.set(code, [idx])
+  })
+
+  const vectors = codes.map((code) => decode(space, code))
+  const sets: number[][] = []
+  const partial: number[] = []
+
+  const search = (start: number) => {
+    if (partial.length === space.values - 1) {
+      const last = completeSet(space, partial.map((idx) => vectors[idx]))
+      if (!last) return
+      const lastPicked = partial[partial.length - 1]
+      for (const idx of indicesByCode.get(encode(space, last)) ?? []) {
+        if (idx > lastPicked) sets.push([...partial, idx])
+      }
+      return
+    }
+    for (let idx = start; idx < codes.length; idx++) {
+      partial.push(idx)
+      search(idx + 1)
+      partial.pop()
+    }
+  }
+
+  search(0)
+  return sets
+}
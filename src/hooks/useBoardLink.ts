@@ -0,0 +1,71 @@
+/**
+ * React hook for shareable board links: opens boards from the URL hash and
+ * shares the current board as a link. A link that cannot be read leaves its
+ * error in `linkError` until the next link or `dismissLinkError`.
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import { boardFromHash, boardToHash } from '../game/share'
+import type { CardProperties } from '../types'
+
+export function useBoardLink(onOpen: (cards: CardProperties[]) => void) {
+  const [shareMessage, setShareMessage] = useState<string | null>(null)
+  const [linkError, setLinkError] = useState<string | null>(null)
+
+  // Open a board link on load and whenever the hash changes
+  useEffect(() => {
+    const openFromHash = () => {
+      try {
+        const cards = boardFromHash(window.location.hash)
+        if (!cards) return
+        setLinkError(null)
+        onOpen(cards)
+      } catch (error) {
+        console.error('Invalid board link:', error)
+        setLinkError(`Invalid board link: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      // The board is now held in state; drop the hash so edits don't disagree with it
+      history.replaceState(null, '', window.location.pathname + window.location.search)
+    }
+    openFromHash()
+    window.addEventListener('hashchange', openFromHash)
+    return () => window.removeEventListener('hashchange', openFromHash)
+  }, [onOpen])
+
+  // Hide the feedback after a moment
+  useEffect(() => {
+    if (!shareMessage) return
+    const timeout = setTimeout(() => setShareMessage(null), 2500)
+    return () => clearTimeout(timeout)
+  }, [shareMessage])
+
+  /**
+   * Share a link to the board with the Web Share API, or copy it to the
+   * clipboard where sharing is unavailable
+   */
+  const share = useCallback(async (cards: CardProperties[], setCount: number) => {
+    const url = window.location.origin + window.location.pathname + boardToHash(cards)
+    const text = `Look at this board — ${setCount} set${setCount === 1 ? '' : 's'}!`
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'SET board', text, url })
+        return
+      } catch (error) {
+        // Dismissing the share sheet is not a failure
+        if ((error as Error).name === 'AbortError') return
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(url)
+      setShareMessage('Link copied')
+    } catch {
+      setShareMessage('Could not share the link')
+    }
+  }, [])
+
+  const dismissLinkError = useCallback(() => setLinkError(null), [])
+
+  return { share, shareMessage, linkError, dismissLinkError }
+}
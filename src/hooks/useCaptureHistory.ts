@@ -0,0 +1,77 @@
+/**
+ * React hook for the capture history kept in IndexedDB.
+ */
+
+import { useState, useCallback } from 'react'
+import {
+  deleteCapture,
+  getCaptureImage,
+  listCaptures,
+  saveCapture,
+  updateCapture,
+  type CaptureSummary,
+  type NewCapture,
+} from '../storage/history'
+
+export function useCaptureHistory() {
+  const [captures, setCaptures] = useState<CaptureSummary[]>([])
+
+  /**
+   * Reload the list of stored captures
+   */
+  const refresh = useCallback(async () => {
+    try {
+      setCaptures(await listCaptures())
+    } catch (error) {
+      console.error('Failed to read capture history:', error)
+    }
+  }, [])
+
+  /**
+   * Store a capture; resolves with its id, or null if storage failed
+   */
+  const save = useCallback(async (capture: NewCapture, image: Blob): Promise<number | null> => {
+    try {
+      return await saveCapture(capture, image)
+    } catch (error) {
+      console.error('Failed to save capture:', error)
+      return null
+    }
+  }, [])
+
+  const update = useCallback(async (id: number, changes: Pick<CaptureSummary, 'cards' | 'sets'>) => {
+    try {
+      await updateCapture(id, changes)
+    } catch (error) {
+      console.error('Failed to update capture:', error)
+    }
+  }, [])
+
+  const remove = useCallback(async (id: number) => {
+    try {
+      await deleteCapture(id)
+    } catch (error) {
+      console.error('Failed to delete capture:', error)
+    }
+    await refresh()
+  }, [refresh])
+
+  const loadImage = useCallback(async (id: number): Promise<Blob | undefined> => {
+    try {
+      return await getCaptureImage(id)
+    } catch (error) {
+      console.error('Failed to load capture:', error)
+      return undefined
+    }
+  }, [])
+
+  return {
+    captures,
+    totalBytes: captures.reduce((sum, capture) => sum + capture.size, 0),
+    refresh,
+    save,
+    update,
+    remove,
+    loadImage,
+  }
+}
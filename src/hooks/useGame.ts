@@ -0,0 +1,88 @@
+/**
+ * React hook for a single-player practice game on a virtual board.
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { claimSet, newGame, type GameState } from '../game/engine'
+import { toVirtualCards } from '../game/board'
+import { findAllSets } from '../game/solver'
+import type { ProcessedResult } from '../types'
+
+export function useGame() {
+  const [game, setGame] = useState<GameState>(() => newGame())
+  const [selected, setSelected] = useState<number[]>([])
+  const [lastClaim, setLastClaim] = useState<'valid' | 'invalid' | null>(null)
+  const [mistakes, setMistakes] = useState(0)
+  const [startedAt, setStartedAt] = useState(() => Date.now())
+  const [finishedAt, setFinishedAt] = useState<number | null>(null)
+
+  // Solve the current board so hints and the set button work as usual
+  const results = useMemo<ProcessedResult>(() => {
+    const startTime = performance.now()
+    const cards = toVirtualCards(game.board)
+    return {
+      cards,
+      sets: findAllSets(cards),
+      timestamp: performance.now(),
+      inferenceTime: performance.now() - startTime,
+    }
+  }, [game.board])
+
+  /**
+   * Claim three board cards as a set. Returns whether the claim was valid.
+   */
+  const claim = useCallback((indices: [number, number, number]): boolean => {
+    const next = claimSet(game, indices)
+    if (!next) return false
+    setGame(next)
+    setSelected([])
+    if (next.isOver) setFinishedAt(Date.now())
+    return true
+  }, [game])
+
+  /**
+   * Select or deselect a board card; the third selection claims a set
+   */
+  const selectCard = useCallback((index: number) => {
+    if (game.isOver) return
+    if (selected.includes(index)) {
+      setSelected(selected.filter((idx) => idx !== index))
+      return
+    }
+    if (selected.length < 2) {
+      setSelected([...selected, index])
+      setLastClaim(null)
+      return
+    }
+
+    setSelected([])
+    if (claim([selected[0], selected[1], index])) {
+      setLastClaim('valid')
+    } else {
+      setMistakes((m) => m + 1)
+      setLastClaim('invalid')
+    }
+  }, [game.isOver, selected, claim])
+
+  const restart = useCallback((seed?: number) => {
+    setGame(newGame(seed))
+    setSelected([])
+    setLastClaim(null)
+    setMistakes(0)
+    setStartedAt(Date.now())
+    setFinishedAt(null)
+  }, [])
+
+  return {
+    game,
+    results,
+    selected,
+    lastClaim,
+    mistakes,
+    startedAt,
+    finishedAt,
+    claim,
+    selectCard,
+    restart,
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * React hook for graduated set hints: first the number of sets, then one card
+ * of a set, then two, then the whole set. Counts the hints used on a board.
+ */
+
+import { useState, useCallback } from 'react'
+import { useStore } from '../store'
+
+// Hint levels, in the order the rotation button steps through them
+export const HINT_NONE = 0
+export const HINT_COUNT = 1
+export const HINT_ONE_CARD = 2
+export const HINT_TWO_CARDS = 3
+export const HINT_FULL = 4
+
+export function useHints() {
+  const setHighlightedSetIndex = useStore((state) => state.setHighlightedSetIndex)
+  const [level, setLevel] = useState(HINT_NONE)
+  const [setIndex, setSetIndex] = useState(0)
+  const [hintsUsed, setHintsUsed] = useState(0)
+
+  /**
+   * Give the next hint, or once the set is fully revealed move on to the next
+   * set. Returns the set now highlighted, if any.
+   */
+  const next = useCallback((setCount: number): number | null => {
+    if (setCount === 0) return null
+
+    if (level < HINT_FULL) {
+      const nextLevel = level + 1
+      setLevel(nextLevel)
+      setHintsUsed((n) => n + 1)
+      const highlighted = nextLevel >= HINT_ONE_CARD ? setIndex : null
+      setHighlightedSetIndex(highlighted)
+      return highlighted
+    }
+
+    const nextIndex = (setIndex + 1) % setCount
+    setSetIndex(nextIndex)
+    setHighlightedSetIndex(nextIndex)
+    return nextIndex
+  }, [level, setIndex, setHighlightedSetIndex])
+
+  /**
+   * Show a whole set straight away without counting a hint (live mode)
+   */
+  const reveal = useCallback((index: number) => {
+    setLevel(HINT_FULL)
+    setSetIndex(index)
+    setHighlightedSetIndex(index)
+  }, [setHighlightedSetIndex])
+
+  /**
+   * The same board was solved again (a card corrected): keep the hints given
+   * and the count, pointing at a set that still exists
+   */
+  const refit = useCallback((setCount: number) => {
+    const index = Math.min(setIndex, Math.max(0, setCount - 1))
+    setSetIndex(index)
+    setHighlightedSetIndex(level >= HINT_ONE_CARD && setCount > 0 ? index : null)
+  }, [level, setIndex, setHighlightedSetIndex])
+
+  /**
+   * Start over on a new board
+   */
+  const reset = useCallback(() => {
+    setLevel(HINT_NONE)
+    setSetIndex(0)
+    setHintsUsed(0)
+    setHighlightedSetIndex(null)
+  }, [setHighlightedSetIndex])
+
+  return {
+    level,
+    setIndex,
+    hintsUsed,
+    // How many cards of the highlighted set are shown
+    revealedCards: level >= HINT_ONE_CARD ? level - HINT_COUNT : 0,
+    next,
+    reveal,
+    refit,
+    reset,
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * React hook for PWA state: whether the browser is offline, and the deferred
+ * install prompt (Chromium's beforeinstallprompt) if the app can be installed.
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+
+// Not in the DOM typings yet
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>
+}
+
+export function useInstallPrompt() {
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine)
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null)
+
+  useEffect(() => {
+    const goOnline = () => setIsOffline(false)
+    const goOffline = () => setIsOffline(true)
+    const offerInstall = (event: Event) => {
+      // Show our own button instead of the browser's mini-infobar
+      event.preventDefault()
+      setInstallEvent(event as BeforeInstallPromptEvent)
+    }
+    const installed = () => setInstallEvent(null)
+
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    window.addEventListener('beforeinstallprompt', offerInstall)
+    window.addEventListener('appinstalled', installed)
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+      window.removeEventListener('beforeinstallprompt', offerInstall)
+      window.removeEventListener('appinstalled', installed)
+    }
+  }, [])
+
+  /**
+   * Show the browser's install dialog; the prompt can only be used once
+   */
+  const install = useCallback(async () => {
+    if (!installEvent) return
+    setInstallEvent(null)
+    await installEvent.prompt()
+  }, [installEvent])
+
+  return {
+    isOffline,
+    canInstall: installEvent !== null,
+    install,
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * React hook for continuous detection on the live camera feed.
+ *
+ * Feeds frames through processFrame as fast as it can keep up and reports FPS.
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type { ProcessedResult } from '../types'
+
+interface LiveDetectionOptions {
+  videoRef: React.RefObject<HTMLVideoElement>
+  containerRef: React.RefObject<HTMLDivElement>
+  processFrame: (imageData: ImageData, options?: { track?: boolean }) => Promise<ProcessedResult | null>
+  enabled: boolean
+}
+
+/**
+ * Draw the part of the video visible in its container (video is scaled to fit
+ * width and anchored to the top) onto a new canvas.
+ */
+export function captureVisibleFrame(
+  video: HTMLVideoElement,
+  container: HTMLElement
+): HTMLCanvasElement | null {
+  if (video.videoWidth === 0 || video.videoHeight === 0) return null
+
+  // Calculate the scale factor (video is scaled to fit width)
+  const scale = video.videoWidth / container.clientWidth
+
+  // Calculate how much of the video height is visible
+  const visibleVideoHeight = Math.round(Math.min(container.clientHeight * scale, video.videoHeight))
+
+  // Create canvas with cropped dimensions
+  const canvas = document.createElement('canvas')
+  canvas.width = video.videoWidth
+  canvas.height = visibleVideoHeight
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return null
+
+  // Draw only the visible portion (from top)
+  ctx.drawImage(
+    video,
+    0, 0, video.videoWidth, visibleVideoHeight,  // source rect
+    0, 0, video.videoWidth, visibleVideoHeight   // dest rect
+  )
+  return canvas
+}
+
+export function useLiveDetection({ videoRef, containerRef, processFrame, enabled }: LiveDetectionOptions) {
+  const [isRunning, setIsRunning] = useState(false)
+  const [fps, setFps] = useState(0)
+
+  const runningRef = useRef(false)
+  const frameRef = useRef<number | null>(null)
+
+  const stop = useCallback(() => {
+    runningRef.current = false
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+    }
+    setIsRunning(false)
+    setFps(0)
+  }, [])
+
+  const start = useCallback(() => {
+    if (runningRef.current || !enabled) return
+    runningRef.current = true
+    setIsRunning(true)
+
+    let framesInWindow = 0
+    let windowStart = performance.now()
+
+    const loop = async () => {
+      if (!runningRef.current) return
+
+      const video = videoRef.current
+      const container = containerRef.current
+      const canvas = video && container ? captureVisibleFrame(video, container) : null
+
+      if (canvas) {
+        const imageData = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+        // processFrame returns null while a previous frame is still in flight
+        const result = await processFrame(imageData, { track: true })
+        if (result) framesInWindow++
+      }
+
+      // Update FPS roughly once per second
+      const now = performance.now()
+      if (now - windowStart >= 1000) {
+        setFps(Math.round((framesInWindow * 1000) / (now - windowStart)))
+        framesInWindow = 0
+        windowStart = now
+      }
+
+      if (runningRef.current) {
+        frameRef.current = requestAnimationFrame(loop)
+      }
+    }
+
+    frameRef.current = requestAnimationFrame(loop)
+  }, [enabled, videoRef, containerRef, processFrame])
+
+  const toggle = useCallback(() => {
+    if (runningRef.current) {
+      stop()
+    } else {
+      start()
+    }
+  }, [start, stop])
+
+  // Stop when the camera goes away (capture, upload) and on unmount
+  useEffect(() => {
+    if (!enabled) stop()
+    return stop
+  }, [enabled, stop])
+
+  return {
+    isRunning,
+    fps,
+    start,
+    stop,
+    toggle,
+  }
+}
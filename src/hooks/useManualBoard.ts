@@ -0,0 +1,60 @@
+/**
+ * React hook for a board entered by hand, solved without camera or model.
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { isSameCard, toVirtualCards } from '../game/board'
+import { findAllSets } from '../game/solver'
+import type { CardProperties, ProcessedResult } from '../types'
+
+export function useManualBoard() {
+  const [board, setBoard] = useState<CardProperties[]>([])
+
+  // Solve whenever the board changes
+  const results = useMemo<ProcessedResult | null>(() => {
+    if (board.length === 0) return null
+    const startTime = performance.now()
+    const cards = toVirtualCards(board)
+    return {
+      cards,
+      sets: findAllSets(cards),
+      timestamp: performance.now(),
+      inferenceTime: performance.now() - startTime,
+    }
+  }, [board])
+
+  /**
+   * Add a card, or remove it if it is already on the board
+   */
+  const toggleCard = useCallback((card: CardProperties) => {
+    setBoard((prev) =>
+      prev.some((c) => isSameCard(c, card))
+        ? prev.filter((c) => !isSameCard(c, card))
+        : [...prev, card]
+    )
+  }, [])
+
+  const removeCard = useCallback((index: number) => {
+    setBoard((prev) => prev.filter((_, idx) => idx !== index))
+  }, [])
+
+  const clearBoard = useCallback(() => {
+    setBoard([])
+  }, [])
+
+  /**
+   * Replace the whole board, e.g. with one pasted as text
+   */
+  const loadBoard = useCallback((cards: CardProperties[]) => {
+    setBoard(cards)
+  }, [])
+
+  return {
+    board,
+    results,
+    toggleCard,
+    removeCard,
+    clearBoard,
+    loadBoard,
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * React hook refereeing a hot-seat multiplayer match on the current board.
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import { callSet, cancelCall, createMatch, expireCall, resolveClaim, type MatchState } from '../game/match'
+import type { CardProperties } from '../types'
+
+export function useMatch() {
+  const [match, setMatch] = useState<MatchState | null>(null)
+  const [selection, setSelection] = useState<number[]>([]) // caller's picks so far
+  const [claimed, setClaimed] = useState<number[]>([]) // cards already won on this board
+  const [lastClaim, setLastClaim] = useState<'valid' | 'invalid' | 'timeout' | null>(null)
+
+  // Time out the caller
+  useEffect(() => {
+    if (!match?.deadline) return
+    const timeout = setTimeout(() => {
+      setMatch((prev) => (prev ? expireCall(prev) : prev))
+      setSelection([])
+      setLastClaim('timeout')
+    }, Math.max(0, match.deadline - Date.now()))
+    return () => clearTimeout(timeout)
+  }, [match?.deadline])
+
+  const start = useCallback((names: string[]) => {
+    setMatch(createMatch(names))
+    setSelection([])
+    setClaimed([])
+    setLastClaim(null)
+  }, [])
+
+  const end = useCallback(() => {
+    setMatch(null)
+    setSelection([])
+    setClaimed([])
+    setLastClaim(null)
+  }, [])
+
+  const call = useCallback((player: number) => {
+    setMatch((prev) => (prev ? callSet(prev, player) : prev))
+    setSelection([])
+    setLastClaim(null)
+  }, [])
+
+  /**
+   * The caller picks a card. On the third pick the claim is checked and the
+   * picked indices are returned with the verdict.
+   */
+  const selectCard = useCallback((index: number, board: CardProperties[]) => {
+    if (!match || match.caller === null || claimed.includes(index)) return null
+    if (selection.includes(index)) {
+      setSelection(selection.filter((idx) => idx !== index))
+      return null
+    }
+    if (selection.length < 2) {
+      setSelection([...selection, index])
+      return null
+    }
+
+    const indices: [number, number, number] = [selection[0], selection[1], index]
+    const { state, valid } = resolveClaim(match, [board[indices[0]], board[indices[1]], board[indices[2]]])
+    setMatch(state)
+    setSelection([])
+    setLastClaim(valid ? 'valid' : 'invalid')
+    if (valid) setClaimed([...claimed, ...indices])
+    return { indices, valid }
+  }, [match, selection, claimed])
+
+  /**
+   * The board changed (new capture, cards dealt): drop picks and claimed cards
+   */
+  const resetBoard = useCallback(() => {
+    setSelection([])
+    setClaimed([])
+    setMatch((prev) => (prev && prev.caller !== null ? cancelCall(prev) : prev))
+  }, [])
+
+  return {
+    match,
+    selection,
+    claimed,
+    lastClaim,
+    start,
+    end,
+    call,
+    selectCard,
+    resetBoard,
+  }
+}
@@ -2,26 +2,61 @@
  * React hook for Set card detection and solving.
  * 
  * Uses OpenCV for card detection (robust) + ML classifier for properties (accurate).
+ * Both run in a Web Worker (see solver.worker.ts) to keep the UI responsive.
  */
 
-import { useState, useCallback, useRef } from 'react'
-import { CardClassifier } from '../analysis/inference'
-import { detectCardsOpenCV, warpCardToImageData, isOpenCVLoaded } from '../analysis/opencv-detector'
-import { findAllSets, indicesToCard } from '../game/solver'
-import type { Card, ProcessedResult } from '../types'
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { SolverWorkerClient } from '../analysis/solver-client'
+import type { Backend, BackendSelection } from '../analysis/backends'
+import type { LoadProgress } from '../analysis/model-manifest'
+import type { DetectorConfig } from '../analysis/opencv-detector'
+import { findAllSets, findAlternativeSets, rankSets } from '../game/solver'
+import { loadPreference, savePreference } from '../storage/preferences'
+import { useStore } from '../store'
+import type { Card, CardProperties, ProcessedResult, SetResult } from '../types'
 
 // Check if we're in mock mode (for UI development without models)
 const MOCK_MODE = import.meta.env.VITE_MOCK_ML === 'true'
 
+// The backend picked in Settings (null for automatic) and the last benchmark's winner
+interface BackendPreference {
+  override: Backend | null
+  benchmarked: Backend | null
+}
+
+const BACKEND_PREFERENCE = 'backend'
+const NO_BACKEND_PREFERENCE: BackendPreference = { override: null, benchmarked: null }
+
 export function useSetSolver() {
   const [isModelLoaded, setIsModelLoaded] = useState(MOCK_MODE)
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [modelVersion, setModelVersion] = useState<string | null>(null)
+  const [backend, setBackend] = useState<BackendSelection | null>(null)
+  // Detector config used on the last frame, showing what auto-tuning chose
+  const [lastDetector, setLastDetector] = useState<DetectorConfig | null>(null)
+  const [backendOverride, setBackendOverride] = useState(
+    () => loadPreference(BACKEND_PREFERENCE, NO_BACKEND_PREFERENCE).override
+  )
   const [results, setResults] = useState<ProcessedResult | null>(null)
   
-  const classifierRef = useRef<CardClassifier | null>(null)
+  const solverRef = useRef<SolverWorkerClient | null>(null)
+  const isOpenCVLoadedRef = useRef(false)
   const isProcessingRef = useRef(false)
   
+  // Shut the worker down with the component
+  useEffect(() => {
+    return () => {
+      solverRef.current?.terminate()
+      solverRef.current = null
+    }
+  }, [])
+  
   /**
-   * Load ML classifier (OpenCV loads separately via script tag)
+   * Load OpenCV and the ML classifier inside the solver worker. The classifier
+   * runs on the chosen backend, else the stored benchmark winner, else a new
+   * benchmark's. On failure the worker is discarded and the error kept, so
+   * calling this again retries.
    */
   const loadModels = useCallback(async () => {
     if (MOCK_MODE) {
@@ -29,21 +64,63 @@ export function useSetSolver() {
       return
     }
     
+    setLoadError(null)
+    setLoadProgress(null)
+    solverRef.current ??= new SolverWorkerClient()
+    const solver = solverRef.current
     try {
-      // Just load the classifier - OpenCV loads independently
-      classifierRef.current = new CardClassifier()
-      await classifierRef.current.load('/models/classifier.onnx')
+      const preference = loadPreference(BACKEND_PREFERENCE, NO_BACKEND_PREFERENCE)
+      const loaded = await solver.load(
+        '/models/manifest.json',
+        preference.override ?? preference.benchmarked,
+        setLoadProgress
+      )
+      isOpenCVLoadedRef.current = loaded.openCVLoaded
+      setModelVersion(loaded.modelVersion)
+      setBackend(loaded.backend)
+      if (loaded.backend.fallbackFrom) {
+        // The stored choice (chosen or benchmarked) no longer loads; go back to automatic
+        savePreference(BACKEND_PREFERENCE, { override: null, benchmarked: loaded.backend.backend })
+        setBackendOverride(null)
+      } else if (!preference.override) {
+        savePreference(BACKEND_PREFERENCE, { ...preference, benchmarked: loaded.backend.backend })
+      }
       setIsModelLoaded(true)
     } catch (error) {
+      // A worker already replaced (backend change) or shut down fails its load; nothing to report
+      if (solverRef.current !== solver) return
       console.error('Failed to load models:', error)
+      solver.terminate()
+      solverRef.current = null
+      setLoadError(error instanceof Error ? error.message : String(error))
       throw error
     }
   }, [])
   
   /**
-   * Process a single image/frame using OpenCV detection + ML classification
+   * Switch the classifier to another backend, or back to automatic (null),
+   * which benchmarks again. Restarts the worker and reloads the models.
+   */
+  const changeBackend = useCallback(async (override: Backend | null) => {
+    savePreference(BACKEND_PREFERENCE, { override, benchmarked: null })
+    setBackendOverride(override)
+    solverRef.current?.terminate()
+    solverRef.current = null
+    isOpenCVLoadedRef.current = false
+    setIsModelLoaded(MOCK_MODE)
+    setBackend(null)
+    await loadModels()
+  }, [loadModels])
+  
+  /**
+   * Process a single image/frame using OpenCV detection + ML classification.
+   * With `track`, consecutive frames share card ids and smoothed attributes
+   * (live video); otherwise each frame stands alone.
    */
-  const processFrame = useCallback(async (imageData: ImageData): Promise<ProcessedResult | null> => {
+  const processFrame = useCallback(async (
+    imageData: ImageData,
+    options: { track?: boolean } = {}
+  ): Promise<ProcessedResult | null> => {
     // Skip if already processing
     if (isProcessingRef.current) {
       return null
@@ -53,56 +130,27 @@ export function useSetSolver() {
     const startTime = performance.now()
     
     try {
-      let cards: Card[]
+      let result: ProcessedResult
       
-      if (MOCK_MODE || !classifierRef.current) {
-        cards = generateMockCards()
-      } else if (!isOpenCVLoaded()) {
+      if (MOCK_MODE || !solverRef.current) {
+        result = solveMockFrame(startTime)
+      } else if (!isOpenCVLoadedRef.current) {
         console.warn('OpenCV not loaded, using mock cards')
-        cards = generateMockCards()
+        result = solveMockFrame(startTime)
       } else {
-        // Step 1: Detect cards using OpenCV (robust contour detection)
-        const detections = detectCardsOpenCV(imageData)
-        
-        if (detections.length === 0) {
-          cards = []
-        } else {
-          // Step 2: Classify each detected card using ML
-          cards = []
-          for (let idx = 0; idx < detections.length; idx++) {
-            const detection = detections[idx]
-            // Warp card to upright rectangle using corner points (handles rotation)
-            const cardImageData = warpCardToImageData(imageData, detection.corners, 200, 300)
-            if (!cardImageData) continue
-            // Classify with ML model
-            const classification = await classifierRef.current!.classify(cardImageData)
-            const props = indicesToCard(
-              classification.shape,
-              classification.color,
-              classification.number,
-              classification.shading
-            )
-            
-            cards.push({
-              id: idx,
-              bbox: detection.bbox,
-              corners: detection.corners,
-              confidence: detection.confidence,
-              ...props,
-            })
-          }
-        }
+        // Detection, classification and solving all happen in the worker.
+        // Its clock has a different origin, so restamp the result here.
+        const frame = await solverRef.current.process(
+          imageData,
+          options.track ?? false,
+          useStore.getState().settings.detector
+        )
+        result = { ...frame.result, timestamp: performance.now() }
+        setLastDetector(frame.detector)
       }
       
-      // Step 3: Find valid sets
-      const sets = findAllSets(cards)
-      
-      const result: ProcessedResult = {
-        cards,
-        sets,
-        timestamp: performance.now(),
-        inferenceTime: performance.now() - startTime,
-      }
+      // Rank and extend the sets with the current settings
+      result = { ...result, sets: solveCards(result.cards) }
       
       setResults(result)
       return result
@@ -115,16 +163,72 @@ export function useSetSolver() {
     }
   }, [])
   
+  /**
+   * Override a card's attributes by hand and re-solve the board
+   */
+  const correctCard = useCallback((index: number, props: CardProperties) => {
+    setResults((prev) => {
+      if (!prev || !prev.cards[index]) return prev
+      const cards = prev.cards.map((card, idx) =>
+        idx === index ? { ...card, ...props, corrected: true } : card
+      )
+      return { ...prev, cards, sets: solveCards(cards) }
+    })
+  }, [])
+  
   const clearResults = useCallback(() => {
     setResults(null)
   }, [])
   
+  /**
+   * Show a previously stored result again (capture history)
+   */
+  const restoreResults = useCallback((result: ProcessedResult) => {
+    setResults(result)
+  }, [])
+  
   return {
     isModelLoaded,
+    loadProgress,
+    loadError,
+    modelVersion,
+    backend,
+    backendOverride,
+    lastDetector,
     loadModels,
+    changeBackend,
     processFrame,
     results,
+    correctCard,
     clearResults,
+    restoreResults,
+  }
+}
+
+/**
+ * Find sets with the current settings: most likely first, flagging the ones
+ * that hinge on shaky readings, then (optionally) sets that would exist if an
+ * ambiguous card was misread.
+ */
+function solveCards(cards: Card[]): SetResult[] {
+  const { confidenceThreshold, showAlternativeSets, alternativeCutoff } = useStore.getState().settings
+  const sets = rankSets(findAllSets(cards), confidenceThreshold)
+  if (showAlternativeSets) {
+    sets.push(...findAlternativeSets(cards, alternativeCutoff))
+  }
+  return sets
+}
+
+/**
+ * Solve a board of mock cards for UI development
+ */
+function solveMockFrame(startTime: number): ProcessedResult {
+  const cards = generateMockCards()
+  return {
+    cards,
+    sets: findAllSets(cards),
+    timestamp: performance.now(),
+    inferenceTime: performance.now() - startTime,
   }
 }
 
@@ -0,0 +1,50 @@
+/**
+ * Service worker: makes the app work offline.
+ *
+ * This file is a template. At build time the `service-worker` plugin in
+ * vite.config.ts fills in the precache list (app shell, bundled assets with
+ * the onnxruntime wasm, opencv.js and the classifier model) and a version
+ * hashed from all of them. A changed model or app build therefore changes
+ * this script, which installs a fresh cache and drops the old one.
+ */
+
+const VERSION = '__VERSION__'
+const PRECACHE_URLS = __PRECACHE_URLS__
+const CACHE_NAME = `setsolver-${VERSION}`
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      // Bypass the HTTP cache so a new version never stores stale files
+      .then((cache) => cache.addAll(PRECACHE_URLS.map((url) => new Request(url, { cache: 'reload' }))))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+
+  // Pages: network first so deploys show up, the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html', { cacheName: CACHE_NAME }))
+    )
+    return
+  }
+
+  // Everything else: precached files from the cache, the rest from the network
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then((cached) => cached ?? fetch(request))
+  )
+})
@@ -0,0 +1,150 @@
+/**
+ * Capture history persisted in IndexedDB.
+ *
+ * Summaries (thumbnail, cards, sets, timings) and full images live in separate
+ * object stores under the same id, so the history list loads without reading
+ * every photo. Old captures are pruned to keep within MAX_CAPTURES and
+ * MAX_STORAGE_BYTES of images.
+ */
+
+import type { Card, SetResult } from '../types'
+
+const DB_NAME = 'setsolver'
+const DB_VERSION = 1
+const SUMMARIES = 'captures'
+const IMAGES = 'images'
+
+export const MAX_CAPTURES = 50
+export const MAX_STORAGE_BYTES = 100 * 1024 * 1024
+
+const THUMBNAIL_WIDTH = 240
+
+// A stored capture without its full image
+export interface CaptureSummary {
+  id: number
+  timestamp: number // when the photo was taken (ms since epoch)
+  thumbnail: string // small JPEG data URL
+  width: number
+  height: number
+  size: number // bytes of the full image
+  cards: Card[] // including manual corrections
+  sets: SetResult[]
+  inferenceTime: number
+}
+
+export type NewCapture = Omit<CaptureSummary, 'id' | 'size' | 'thumbnail'>
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore(SUMMARIES, { keyPath: 'id', autoIncrement: true })
+      db.createObjectStore(IMAGES)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+/**
+ * Run `work` in a transaction over both stores and resolve with its result
+ * once the transaction commits.
+ */
+async function transact<T>(
+  mode: IDBTransactionMode,
+  work: (summaries: IDBObjectStore, images: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SUMMARIES, IMAGES], mode)
+    const request = work(tx.objectStore(SUMMARIES), tx.objectStore(IMAGES))
+    tx.oncomplete = () => resolve(request?.result as T)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Scale an image down to a JPEG thumbnail.
+ */
+async function makeThumbnail(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image)
+  const scale = Math.min(1, THUMBNAIL_WIDTH / bitmap.width)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return canvas.toDataURL('image/jpeg', 0.7)
+}
+
+/**
+ * All stored captures, newest first.
+ */
+export async function listCaptures(): Promise<CaptureSummary[]> {
+  const summaries = await transact<CaptureSummary[]>('readonly', (store) => store.getAll())
+  return summaries.sort((a, b) => b.timestamp - a.timestamp)
+}
+
+export async function getCaptureImage(id: number): Promise<Blob | undefined> {
+  return transact<Blob | undefined>('readonly', (_, images) => images.get(id))
+}
+
+/**
+ * Store a capture with its image, then prune the oldest captures beyond the
+ * limits. Returns the new capture's id.
+ */
+export async function saveCapture(capture: NewCapture, image: Blob): Promise<number> {
+  const thumbnail = await makeThumbnail(image)
+  const id = await transact<IDBValidKey>('readwrite', (summaries, images) => {
+    const request = summaries.add({ ...capture, thumbnail, size: image.size })
+    request.onsuccess = () => images.put(image, request.result)
+    return request
+  })
+  await pruneCaptures()
+  return id as number
+}
+
+/**
+ * Update a stored capture's cards and sets, e.g. after a manual correction.
+ */
+export async function updateCapture(id: number, changes: Pick<CaptureSummary, 'cards' | 'sets'>): Promise<void> {
+  await transact('readwrite', (summaries) => {
+    const request = summaries.get(id)
+    request.onsuccess = () => {
+      if (request.result) summaries.put({ ...request.result, ...changes })
+    }
+  })
+}
+
+export async function deleteCapture(id: number): Promise<void> {
+  await transact('readwrite', (summaries, images) => {
+    summaries.delete(id)
+    images.delete(id)
+  })
+}
+
+/**
+ * Delete the oldest captures until both the count and image bytes are
+ * within the limits.
+ */
+async function pruneCaptures(): Promise<void> {
+  const captures = await listCaptures()
+  let bytes = captures.reduce((sum, capture) => sum + capture.size, 0)
+  let count = captures.length
+  for (const capture of [...captures].reverse()) {
+    if (count <= MAX_CAPTURES && bytes <= MAX_STORAGE_BYTES) break
+    // Always keep the newest capture, even if it alone exceeds the byte limit
+    if (count === 1) break
+    await deleteCapture(capture.id)
+    bytes -= capture.size
+    count--
+  }
+}
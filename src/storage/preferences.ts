@@ -0,0 +1,25 @@
+/**
+ * Small settings kept across visits in localStorage, stored as JSON.
+ *
+ * Reads fall back to the default when nothing is stored, the value cannot be
+ * parsed or storage is unavailable (private browsing, disabled cookies).
+ */
+
+const KEY_PREFIX = 'setsolver:'
+
+export function loadPreference<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(KEY_PREFIX + key)
+    return stored === null ? fallback : (JSON.parse(stored) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export function savePreference<T>(key: string, value: T): void {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value))
+  } catch (error) {
+    console.warn(`Could not save the ${key} preference:`, error)
+  }
+}
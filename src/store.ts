@@ -1,4 +1,19 @@
 import { create } from 'zustand'
+import { DEFAULT_DETECTOR_CONFIG, clampDetectorConfig } from './analysis/opencv-detector'
+import type { DetectorSettings } from './analysis/worker-protocol'
+import { loadPreference } from './storage/preferences'
+
+// Detector settings are kept across visits (saved by the Settings screen)
+export const DETECTOR_PREFERENCE = 'detector'
+
+function loadDetectorSettings(): DetectorSettings {
+  const stored = loadPreference<Partial<DetectorSettings>>(DETECTOR_PREFERENCE, {})
+  return {
+    autoTune: stored.autoTune ?? true,
+    // Fields added since the settings were saved get their defaults
+    config: clampDetectorConfig({ ...DEFAULT_DETECTOR_CONFIG, ...stored.config }),
+  }
+}
 
 interface AppState {
   // UI state
@@ -9,6 +24,9 @@ interface AppState {
   settings: {
     showAllBoxes: boolean
     confidenceThreshold: number
+    showAlternativeSets: boolean // also report sets that need an ambiguous card to be misread
+    alternativeCutoff: number // minimum probability for an alternative attribute value
+    detector: DetectorSettings // card detection thresholds, or auto-tuning from each frame
   }
   updateSettings: (settings: Partial<AppState['settings']>) => void
 }
@@ -22,6 +40,9 @@ export const useStore = create<AppState>((set) => ({
   settings: {
     showAllBoxes: true,
     confidenceThreshold: 0.5,
+    showAlternativeSets: true,
+    alternativeCutoff: 0.2,
+    detector: loadDetectorSettings(),
   },
   updateSettings: (newSettings) =>
     set((state) => ({
@@ -14,12 +14,59 @@ export interface Card {
   number: Number
   shading: Shading
   confidence: number
+  probabilities?: AttributeProbabilities // classifier output, absent for mock cards
+  corrected?: boolean // attributes were set by hand rather than by the classifier
+}
+
+// Per-attribute class probabilities, indexed like SHAPES/COLORS/NUMBERS/SHADINGS
+export interface AttributeProbabilities {
+  shape: number[]
+  color: number[]
+  number: number[]
+  shading: number[]
+}
+
+// A card's attributes without detection data
+export type CardProperties = Pick<Card, 'shape' | 'color' | 'number' | 'shading'>
+
+// An alternative reading of a card that a set depends on
+export interface CardAssumption {
+  index: number // index of the card in the detected cards
+  changes: Partial<CardProperties> // attributes that differ from the prediction
 }
 
 // A valid set of three cards
 export interface SetResult {
   cards: [Card, Card, Card]
   indices: [number, number, number]
+  likelihood: number // joint probability that all three cards were read correctly
+  uncertain?: boolean // likelihood is below the confidence threshold
+  assumptions?: CardAssumption[] // only valid if these cards were misread this way
+}
+
+// Ultra SET: two pairs of cards that are both completed by the same card,
+// which is not on the table
+export interface UltraSetResult {
+  cards: [Card, Card, Card, Card]
+  indices: [number, number, number, number] // first pair, then second pair
+  missing: CardProperties // the shared "virtual" completing card
+}
+
+// How one attribute behaves across three cards; 'two same' breaks a set
+export type AttributeVerdict = 'all same' | 'all different' | 'two same'
+
+export interface AttributeAnalysis<T> {
+  values: [T, T, T]
+  verdict: AttributeVerdict
+}
+
+// Attribute-by-attribute breakdown of any three cards
+export interface SetAnalysis {
+  isSet: boolean
+  shape: AttributeAnalysis<Shape>
+  color: AttributeAnalysis<Color>
+  number: AttributeAnalysis<Number>
+  shading: AttributeAnalysis<Shading>
 }
 
 // Result of processing a single frame
@@ -36,10 +83,5 @@ export interface ClassificationResult {
   color: number
   number: number
   shading: number
-  probabilities: {
-    shape: number[]
-    color: number[]
-    number: number[]
-    shading: number[]
-  }
+  probabilities: AttributeProbabilities
 }
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Builds the headless CLI (src/cli/solve.ts) for Node.
+// onnxruntime-web (either build) is swapped for onnxruntime-node, which shares its API.
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: '@', replacement: path.resolve(__dirname, './src') },
+      { find: /^onnxruntime-web(\/all)?$/, replacement: 'onnxruntime-node' },
+    ],
+  },
+  // The CLI reads models from public/ in place; copying the tree into dist/cli is waste
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/solve.ts',
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    target: 'node18',
+  },
+})
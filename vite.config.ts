@@ -1,14 +1,94 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
 import path from 'path'
 
+// Files in public/ the app needs offline; missing ones (e.g. no model yet) are skipped
+const OFFLINE_PUBLIC_FILES = ['opencv.js', 'models/manifest.json', 'models/classifier.onnx', 'manifest.webmanifest', 'icon.svg']
+const MODEL_MANIFEST = 'models/manifest.json'
+
+/**
+ * Write the model manifest to the build with every model's SHA-256 filled in
+ * from its file, since production builds refuse to load unverified models.
+ * A model without a hash and without its file (it is not in git) keeps a null
+ * hash with a warning, or fails the build when REQUIRE_MODEL_HASH=1 is set
+ * for a release.
+ */
+function modelManifest(): Plugin {
+  const manifestPath = path.resolve(__dirname, 'public', MODEL_MANIFEST)
+  let outDir = 'dist'
+  return {
+    name: 'model-manifest',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir)
+    },
+    writeBundle() {
+      const manifest = JSON.parse(readFileSync(manifestPath, 'utf8')) as Record<string, { file: string; sha256?: string | null }>
+      for (const [name, info] of Object.entries(manifest)) {
+        if (info.sha256) continue
+        const modelPath = path.resolve(path.dirname(manifestPath), info.file)
+        if (!existsSync(modelPath)) {
+          const message = `Model manifest entry "${name}" has no sha256 and ${path.relative(__dirname, modelPath)} is missing`
+          if (process.env.REQUIRE_MODEL_HASH === '1') this.error(message)
+          this.warn(`${message}; the app will refuse to load it`)
+          continue
+        }
+        info.sha256 = createHash('sha256').update(readFileSync(modelPath)).digest('hex')
+      }
+      const target = path.join(outDir, MODEL_MANIFEST)
+      mkdirSync(path.dirname(target), { recursive: true })
+      writeFileSync(target, JSON.stringify(manifest, null, 2) + '\n')
+    },
+  }
+}
+
+/**
+ * Emit sw.js from src/service-worker.js with the list of files to precache and
+ * a version hashed from their contents, so any change ships a new worker.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const urls = ['/', '/index.html']
+
+      for (const [fileName, output] of Object.entries(bundle)) {
+        if (fileName.endsWith('.map') || fileName === 'index.html') continue
+        urls.push(`/${fileName}`)
+        hash.update(fileName)
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      }
+      for (const file of OFFLINE_PUBLIC_FILES) {
+        const filePath = path.resolve(__dirname, 'public', file)
+        if (!existsSync(filePath)) continue
+        urls.push(`/${file}`)
+        hash.update(file)
+        hash.update(readFileSync(filePath))
+      }
+
+      const source = readFileSync(path.resolve(__dirname, 'src/service-worker.js'), 'utf8')
+        .replace('__VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker(), modelManifest()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
     },
   },
+  worker: {
+    // The solver worker pulls in onnxruntime-web, which needs code splitting
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['onnxruntime-web'],
   },